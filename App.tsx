@@ -1,81 +1,318 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { wasteClassifier } from './services/wasteClassifier';
-import { ClassificationResult, WasteCategory } from './types';
+import { scanHistory } from './services/scanHistory';
+import { labelOverrides } from './services/labelOverrides';
+import { createBatch, runBatch } from './services/batchRunner';
+import { TemporalAggregator, loadLiveScanSettings, sanitizeLiveScanSettings, saveLiveScanSettings } from './services/temporalAggregator';
+import { loadAugmentationMode, saveAugmentationMode } from './services/augmentation';
+import { AugmentationMode, BatchItem, ClassificationResult, CropBox, DetectionResult, LiveScanSettings, ScanSource, WasteCategory } from './types';
 import Dropzone from './components/Dropzone';
 import CameraView from './components/CameraView';
+import RegionSelector from './components/RegionSelector';
+import ResultCard from './components/ResultCard';
+import DetectionOverlay from './components/DetectionOverlay';
+import HistoryView from './components/HistoryView';
+import BatchResults from './components/BatchResults';
+import BackendSelector from './components/BackendSelector';
+import LiveScanSettingsPanel from './components/LiveScanSettingsPanel';
+import OfflineStatus from './components/OfflineStatus';
+import CropSelector from './components/CropSelector';
+import SaliencyOverlay from './components/SaliencyOverlay';
+import UncertaintyThreshold from './components/UncertaintyThreshold';
+import LanguageSelector from './components/LanguageSelector';
+import HandsFreePanel from './components/HandsFreePanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import { useI18n } from './components/useI18n';
+import { useHandsFree } from './components/useHandsFree';
+import { i18n } from './services/i18n';
+import { speech } from './services/speech';
+import { describeDetections, describeResult, loadHandsFree, saveHandsFree, VoiceCommand } from './services/handsFree';
 
-type Mode = 'upload' | 'live';
+const AUGMENTATION_MODES: AugmentationMode[] = ['off', 'center', 'multi'];
+
+type Mode = ScanSource | 'history';
 
 const App: React.FC = () => {
+  const translator = useI18n();
+  const { t } = translator;
   const [modelReady, setModelReady] = useState(false);
   const [loadingError, setLoadingError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ClassificationResult | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [crop, setCrop] = useState<CropBox | null>(null);
+  const [augmentation, setAugmentation] = useState<AugmentationMode>(loadAugmentationMode);
   const [mode, setMode] = useState<Mode>('upload');
+  const [backend, setBackend] = useState(() => wasteClassifier.getActiveBackend());
+  const [tfBackend, setTfBackend] = useState(() => wasteClassifier.getTfBackend());
+  const [detectMode, setDetectMode] = useState(false);
+  const [detections, setDetections] = useState<DetectionResult[] | null>(null);
+  const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 });
+  const [showSaliency, setShowSaliency] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [liveSettings, setLiveSettings] = useState<LiveScanSettings>(loadLiveScanSettings);
+  const [liveLock, setLiveLock] = useState({ locked: false, stability: 0 });
+  const aggregatorRef = useRef(new TemporalAggregator(liveSettings));
+  // Live Scan only saves a history entry when what's in front of the camera changes
+  const lastLiveKeyRef = useRef<string | null>(null);
+  const [handsFree, setHandsFree] = useState(loadHandsFree);
+  // Mirrored into a visually hidden live region so screen readers hear results too
+  const [announcement, setAnnouncement] = useState('');
+  const lastAnnouncedRef = useRef<string | null>(null);
 
   useEffect(() => {
     const initModel = async () => {
       try {
         await wasteClassifier.loadModel();
+        setTfBackend(wasteClassifier.getTfBackend());
         setModelReady(true);
         setLoadingError(null);
       } catch (err: any) {
-        setLoadingError(err.message || "Neural System Initialization Failed.");
+        setLoadingError(err.message || i18n.t('app.error.init'));
       }
     };
     initModel();
   }, []);
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    if (!modelReady) return;
+  useEffect(() => {
+    return wasteClassifier.subscribe(next => {
+      setBackend(next);
+      resetResults();
+      if (!next.capabilities.detection) setDetectMode(false);
+      if (!next.capabilities.liveScan) setMode(current => current === 'live' ? 'upload' : current);
+    });
+  }, []);
+
+  const analyzeFile = useCallback(async (file: File, selection: CropBox | null) => {
     setResult(null);
-    setPreviewUrl(null);
+    setDetections(null);
     setLoadingError(null);
     setIsProcessing(true);
 
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
-
+    const options = { crop: selection ?? undefined, augmentation, explain: true };
     try {
-      const classification = await wasteClassifier.classify(file);
-      setResult(classification);
+      if (detectMode) {
+        const found = await wasteClassifier.detect(file, options);
+        setDetections(found);
+        saveScan(() => scanHistory.recordFile(file, found, options.crop));
+      } else {
+        const classification = await wasteClassifier.classify(file, options);
+        setResult(classification);
+        saveScan(() => scanHistory.recordFile(file, [classification], options.crop));
+      }
     } catch (err: any) {
-      setLoadingError(err.message || "Analysis failed.");
+      setLoadingError(err.message || i18n.t('app.error.analysis'));
     } finally {
       setIsProcessing(false);
     }
+  }, [detectMode, augmentation]);
+
+  const handleFileSelect = useCallback((file: File) => {
+    if (!modelReady) return;
+    setPreviewUrl(URL.createObjectURL(file));
+    setCurrentFile(file);
+    setCrop(null);
+    analyzeFile(file, null);
+  }, [modelReady, analyzeFile]);
+
+  /** Re-runs the current photo on just the part the user dragged a box around. */
+  const handleCropSelect = (selection: CropBox | null) => {
+    if (!currentFile || isProcessing) return;
+    setCrop(selection);
+    analyzeFile(currentFile, selection);
+  };
+
+  const handleAugmentationChange = (mode: AugmentationMode) => {
+    setAugmentation(mode);
+    saveAugmentationMode(mode);
+  };
+
+  const handleSnapshot = (file: File) => {
+    // A still is classified like an upload: full resolution, codes included
+    setMode('upload');
+    resetResults();
+    handleFileSelect(file);
+  };
+
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    if (!modelReady) return;
+    resetResults();
+    setLoadingError(null);
+
+    const items = createBatch(files);
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setBatchItems(items);
+    setIsBatchRunning(true);
+
+    try {
+      await runBatch(items, updated => {
+        setBatchItems(current => current?.map(item => item.id === updated.id ? updated : item) ?? null);
+        if (updated.status === 'done' && updated.result) {
+          const result = updated.result;
+          saveScan(() => scanHistory.recordFile(updated.file, [result]));
+        }
+      }, controller.signal);
+    } finally {
+      if (batchAbortRef.current === controller) batchAbortRef.current = null;
+      setIsBatchRunning(false);
+    }
   }, [modelReady]);
 
-  const handleLiveResult = (newResult: ClassificationResult) => {
-    // Only update if confidence is reasonable
-    if (newResult.confidence > 0.2) {
-      setResult(newResult);
+  const saveScan = (save: () => Promise<void>) => {
+    // History is a convenience; a storage failure must not break scanning
+    save().catch(err => console.warn('Could not save scan to history:', err));
+  };
+
+  const recordLive = (frame: HTMLVideoElement, results: ClassificationResult[]) => {
+    const key = results.map(r => `${r.category}:${r.label}`).sort().join('|');
+    if (results.length === 0 || key === lastLiveKeyRef.current) return;
+    lastLiveKeyRef.current = key;
+    saveScan(() => scanHistory.record('live', frame, results));
+  };
+
+  const handleLiveResult = (newResult: ClassificationResult, frame: HTMLVideoElement) => {
+    // The aggregator only reports a category once it is stable across frames
+    const state = aggregatorRef.current.push(newResult);
+    setLiveLock({ locked: state.locked, stability: state.stability });
+    // The locked result's confidence is averaged over frames, so uncertainty is decided again
+    setResult(state.result && wasteClassifier.finalize(state.result));
+    if (state.changed && state.result) {
+      recordLive(frame, [state.result]);
     }
   };
 
-  const clearError = () => {
+  const handleFreeze = (frozen: ClassificationResult | null) => {
+    // A frozen frame is explained on its own rather than voting with the frames around it
+    aggregatorRef.current.reset();
+    setLiveLock({ locked: false, stability: 0 });
+    setResult(frozen);
+  };
+
+  const handleLiveDetections = (newDetections: DetectionResult[], frame: HTMLVideoElement) => {
+    const confident = newDetections.filter(d => d.confidence >= liveSettings.minConfidence);
+    setDetections(confident);
+    recordLive(frame, confident);
+  };
+
+  const handleCorrectResult = (category: WasteCategory) => {
+    if (!result) return;
+    labelOverrides.set(result.label, category);
+    setResult(wasteClassifier.withCategory(result, category));
+  };
+
+  const handleCorrectDetection = (index: number, category: WasteCategory) => {
+    if (!detections) return;
+    labelOverrides.set(detections[index].label, category);
+    setDetections(detections.map((d, i) => i === index ? wasteClassifier.withCategory(d, category) : d));
+  };
+
+  const handleContaminatedResult = (contaminated: boolean) => {
+    if (!result) return;
+    setResult(wasteClassifier.withContamination(result, contaminated));
+  };
+
+  const handleContaminatedDetection = (index: number, contaminated: boolean) => {
+    if (!detections) return;
+    setDetections(detections.map((d, i) => i === index ? wasteClassifier.withContamination(d, contaminated) : d));
+  };
+
+  const handleLiveSettingsChange = (next: LiveScanSettings) => {
+    const settings = sanitizeLiveScanSettings(next);
+    setLiveSettings(settings);
+    saveLiveScanSettings(settings);
+    aggregatorRef.current.configure(settings);
+  };
+
+  const resetResults = () => {
+    aggregatorRef.current.reset();
+    setLiveLock({ locked: false, stability: 0 });
+    batchAbortRef.current?.abort();
+    setBatchItems(null);
+    setResult(null);
+    setDetections(null);
+    setPreviewUrl(null);
+    setCurrentFile(null);
+    setCrop(null);
+    lastLiveKeyRef.current = null;
+  };
+
+  const handleRegionChange = useCallback(() => {
+    // Instructions on the current card came from the previous pack or language
+    resetResults();
+  }, []);
+
+  const announce = (text: string) => {
+    setAnnouncement(text);
+    if (handsFree) speech.speak(text);
+  };
+
+  // Live Scan re-renders the same stable result every frame; only a new answer is announced
+  useEffect(() => {
+    const key = result
+      ? `${result.category}|${result.label}|${result.contaminated ? 'soiled' : ''}|${result.uncertain ? 'unsure' : ''}`
+      : detections
+        ? detections.map(d => `${d.category}:${d.label}`).join('|')
+        : null;
+    if (key === lastAnnouncedRef.current) return;
+    lastAnnouncedRef.current = key;
+    if (result) announce(describeResult(result, translator));
+    else if (detections) announce(describeDetections(detections, translator));
+  }, [result, detections]);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    resetResults();
     setLoadingError(null);
-    if (!modelReady) {
-      window.location.reload();
+  };
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'mode':
+        if (command.mode === 'live' && !backend.capabilities.liveScan) {
+          announce(t('app.mode.liveUnavailable', { model: backend.displayName }));
+          return;
+        }
+        switchMode(command.mode);
+        announce(t(`speech.mode.${command.mode}`));
+        return;
+      case 'repeat':
+        if (!speech.repeat()) speech.speak(t('speech.nothingYet'));
+        return;
+      case 'correct':
+        if (result) handleCorrectResult(command.category);
+        else announce(t('speech.nothingToCorrect'));
+        return;
+      case 'silence':
+        speech.cancel();
     }
   };
 
-  const getCategoryStyles = (category: WasteCategory) => {
-    switch (category) {
-      case WasteCategory.ORGANIC: return { bg: 'bg-green-500', text: 'text-green-600', light: 'bg-green-50', border: 'border-green-200' };
-      case WasteCategory.PLASTIC: return { bg: 'bg-amber-500', text: 'text-amber-600', light: 'bg-amber-50', border: 'border-amber-200' };
-      case WasteCategory.PAPER: return { bg: 'bg-sky-500', text: 'text-sky-600', light: 'bg-sky-50', border: 'border-sky-200' };
-      case WasteCategory.METAL: return { bg: 'bg-zinc-500', text: 'text-zinc-600', light: 'bg-zinc-50', border: 'border-zinc-200' };
-      case WasteCategory.GLASS: return { bg: 'bg-emerald-500', text: 'text-emerald-600', light: 'bg-emerald-50', border: 'border-emerald-200' };
-      case WasteCategory.E_WASTE: return { bg: 'bg-indigo-500', text: 'text-indigo-600', light: 'bg-indigo-50', border: 'border-indigo-200' };
-      default: return { bg: 'bg-rose-500', text: 'text-rose-600', light: 'bg-rose-50', border: 'border-rose-200' };
+  const handsFreeState = useHandsFree(handsFree, handleVoiceCommand);
+
+  const handleHandsFreeToggle = (enabled: boolean) => {
+    setHandsFree(enabled);
+    saveHandsFree(enabled);
+    if (enabled) speech.speak(t(speech.canListen() ? 'speech.welcome' : 'speech.welcomeNoVoice'));
+  };
+
+  const clearError = () => {
+    setLoadingError(null);
+    if (!modelReady) {
+      window.location.reload();
     }
   };
 
   return (
     <div className="max-w-4xl mx-auto px-6 py-12 lg:py-16">
+      <a href="#main" className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-50 focus:px-4 focus:py-2 focus:bg-white focus:rounded-xl focus:shadow-lg text-xs font-black text-emerald-600 uppercase tracking-widest">
+        {t('app.skip')}
+      </a>
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
       <header className="mb-12 text-center">
         <div className="inline-flex items-center gap-3 bg-white px-5 py-2 rounded-full shadow-sm border border-slate-100 mb-8">
           <div className="w-8 h-8 bg-emerald-500 rounded-lg flex items-center justify-center text-white shadow-emerald-200 shadow-lg">
@@ -83,133 +320,240 @@ const App: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0V12m3.024-4.5a1.5 1.5 0 013 0v6a1.5 1.5 0 01-3 0v-6zM6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path>
             </svg>
           </div>
-          <span className="text-sm font-bold tracking-widest text-emerald-600 uppercase">Production Ready</span>
+          <span className="text-sm font-bold tracking-widest text-emerald-600 uppercase">{t('app.badge')}</span>
         </div>
         <h1 className="text-5xl lg:text-7xl font-extrabold text-slate-900 tracking-tight mb-4">
           Eco<span className="text-emerald-500 italic">Clear</span>
         </h1>
         <p className="text-slate-500 font-medium max-w-lg mx-auto">
-          Vision-first waste identification powered by Gemini 2.5 Flash.
+          {t(backend.privacy === 'on-device' ? 'app.tagline.onDevice' : 'app.tagline.cloud', { model: backend.displayName })}
         </p>
 
         <div className="mt-10 flex justify-center">
-          <div className="bg-slate-100 p-1.5 rounded-[1.5rem] flex items-center shadow-inner border border-slate-200/50">
+          <div role="group" aria-label={t('app.mode.label')} className="bg-slate-100 p-1.5 rounded-[1.5rem] flex items-center shadow-inner border border-slate-200/50">
             <button 
-              onClick={() => { setMode('upload'); setResult(null); setPreviewUrl(null); setLoadingError(null); }}
+              onClick={() => switchMode('upload')}
+              aria-pressed={mode === 'upload'}
               className={`px-6 py-2.5 rounded-xl font-bold text-xs uppercase tracking-widest transition-all duration-300 flex items-center gap-2 ${mode === 'upload' ? 'bg-white text-emerald-600 shadow-md scale-[1.02]' : 'text-slate-400 hover:text-slate-600'}`}
             >
-              Upload
+              {t('app.mode.upload')}
+            </button>
+            <button 
+              onClick={() => switchMode('live')}
+              aria-pressed={mode === 'live'}
+              disabled={!backend.capabilities.liveScan}
+              title={backend.capabilities.liveScan ? undefined : t('app.mode.liveUnavailable', { model: backend.displayName })}
+              className={`px-6 py-2.5 rounded-xl font-bold text-xs uppercase tracking-widest transition-all duration-300 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed ${mode === 'live' ? 'bg-white text-emerald-600 shadow-md scale-[1.02]' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              {t('app.mode.live')}
             </button>
             <button 
-              onClick={() => { setMode('live'); setResult(null); setPreviewUrl(null); setLoadingError(null); }}
-              className={`px-6 py-2.5 rounded-xl font-bold text-xs uppercase tracking-widest transition-all duration-300 flex items-center gap-2 ${mode === 'live' ? 'bg-white text-emerald-600 shadow-md scale-[1.02]' : 'text-slate-400 hover:text-slate-600'}`}
+              onClick={() => switchMode('history')}
+              aria-pressed={mode === 'history'}
+              className={`px-6 py-2.5 rounded-xl font-bold text-xs uppercase tracking-widest transition-all duration-300 flex items-center gap-2 ${mode === 'history' ? 'bg-white text-emerald-600 shadow-md scale-[1.02]' : 'text-slate-400 hover:text-slate-600'}`}
             >
-              Live Scan
+              {t('app.mode.history')}
             </button>
           </div>
         </div>
-      </header>
 
-      <div className="grid lg:grid-cols-2 gap-10 items-start">
-        <section className="space-y-6">
-          <div className="bg-white/80 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50">
-            {loadingError ? (
-              <div className="py-8 text-center animate-in zoom-in duration-300">
-                <div className="w-16 h-16 bg-rose-50 text-rose-500 rounded-2xl flex items-center justify-center mx-auto mb-6">
-                  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-                </div>
-                <h3 className="text-lg font-bold text-slate-800 mb-2">Neural Link Error</h3>
-                <p className="text-xs text-rose-500 font-medium mb-6 leading-relaxed px-4">{loadingError}</p>
-                <button onClick={clearError} className="px-8 py-3 bg-slate-900 text-white rounded-2xl text-xs font-bold uppercase tracking-widest hover:bg-emerald-600 transition-colors shadow-lg shadow-slate-200">
-                  Try Again
-                </button>
-              </div>
-            ) : !modelReady ? (
-              <div className="py-16 text-center">
-                <div className="w-12 h-12 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin mx-auto mb-6"></div>
-                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Waking Up Intelligence...</p>
-              </div>
-            ) : mode === 'upload' ? (
-              <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-                <Dropzone onFileSelect={handleFileSelect} disabled={isProcessing} />
-              </div>
-            ) : (
-              <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-                <CameraView onResult={handleLiveResult} isActive={mode === 'live'} />
-              </div>
-            )}
-          </div>
-          
-          <div className="px-6 flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
-              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Model: Gemini-2.5-Flash</span>
-            </div>
-            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">100% Privacy</span>
+        <div className="mt-6 flex flex-col items-center gap-4">
+          <BackendSelector active={backend} disabled={isProcessing || isBatchRunning} />
+          <div className="flex flex-wrap items-start justify-center gap-4">
+            <RegionSelector onChange={handleRegionChange} />
+            <LanguageSelector />
           </div>
-        </section>
-
-        <section className="lg:sticky lg:top-8">
-          {previewUrl || (mode === 'live' && (result || isProcessing)) ? (
-            <div className="space-y-6 animate-in fade-in duration-700">
-              {mode === 'upload' && previewUrl && (
-                <div className="bg-white p-3 rounded-[3rem] shadow-2xl border border-slate-100 relative overflow-hidden group aspect-square">
-                  <img src={previewUrl} className={`w-full h-full object-cover rounded-[2.5rem] transition-all duration-700 ${isProcessing ? 'blur-xl grayscale scale-110 opacity-30' : 'group-hover:scale-105'}`} alt="Input Source" />
-                  {isProcessing && (
-                    <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4">
-                      <div className="w-12 h-12 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
-                      <span className="text-[10px] font-black text-slate-900 uppercase tracking-[0.2em] animate-pulse">Deep Scanning...</span>
-                    </div>
-                  )}
-                </div>
-              )}
+          <HandsFreePanel enabled={handsFree} onToggle={handleHandsFreeToggle} state={handsFreeState} />
+          <UncertaintyThreshold />
+          {backend.capabilities.detection && (
+            <label className="inline-flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={detectMode}
+                onChange={e => { setDetectMode(e.target.checked); resetResults(); }}
+                className="w-4 h-4 accent-emerald-500"
+              />
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('app.detection')}</span>
+            </label>
+          )}
+        </div>
+      </header>
 
-              {result && (
-                <div className="bg-white/90 glass-effect p-8 rounded-[3rem] shadow-2xl border border-white/50 animate-in zoom-in-95 duration-500">
-                  <div className="flex items-start justify-between mb-8">
-                    <div className="space-y-1">
-                      <span className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${getCategoryStyles(result.category).light} ${getCategoryStyles(result.category).text}`}>
-                        {result.category}
-                      </span>
-                      <h2 className="text-4xl font-black text-slate-900 tracking-tight pt-2">
-                        {result.label}
-                      </h2>
-                    </div>
-                    <div className="text-right">
-                       <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Confidence</span>
-                       <span className={`text-xl font-black ${getCategoryStyles(result.category).text}`}>{Math.round(result.confidence * 100)}%</span>
+      <main id="main" tabIndex={-1} className="focus:outline-none">
+        {mode === 'history' ? (
+          <HistoryView />
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-10 items-start">
+            <section className="space-y-6">
+              <div className="bg-white/80 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50">
+                {loadingError ? (
+                  <div className="py-8 text-center animate-in zoom-in duration-300" role="alert">
+                    <div className="w-16 h-16 bg-rose-50 text-rose-500 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                      <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
                     </div>
+                    <h3 className="text-lg font-bold text-slate-800 mb-2">{t('app.error.title')}</h3>
+                    <p className="text-xs text-rose-500 font-medium mb-6 leading-relaxed px-4">{loadingError}</p>
+                    <button onClick={clearError} className="px-8 py-3 bg-slate-900 text-white rounded-2xl text-xs font-bold uppercase tracking-widest hover:bg-emerald-600 transition-colors shadow-lg shadow-slate-200">
+                      {t('app.tryAgain')}
+                    </button>
                   </div>
-
-                  <div className={`p-6 rounded-[2rem] border ${getCategoryStyles(result.category).border} ${getCategoryStyles(result.category).light} mb-8`}>
-                    <h4 className={`text-[10px] font-black uppercase tracking-widest mb-3 opacity-60 ${getCategoryStyles(result.category).text}`}>Disposal Protocol</h4>
-                    <p className="text-slate-800 font-semibold leading-relaxed text-sm">
-                      {result.disposalInstructions}
-                    </p>
+                ) : !modelReady ? (
+                  <div className="py-16 text-center" role="status">
+                    <div className="w-12 h-12 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin mx-auto mb-6"></div>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('app.loading')}</p>
+                  </div>
+                ) : mode === 'upload' ? (
+                  <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <Dropzone onFileSelect={handleFileSelect} onFilesSelect={handleFilesSelect} disabled={isProcessing || isBatchRunning} />
+                    {backend.privacy === 'on-device' && !detectMode && (
+                      <div className="mt-6 flex items-center justify-between gap-4">
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('app.accuracy')}</span>
+                        <div className="bg-slate-100 p-1 rounded-xl flex">
+                          {AUGMENTATION_MODES.map(option => (
+                            <button
+                              key={option}
+                              onClick={() => handleAugmentationChange(option)}
+                              title={t(`app.accuracy.${option}.title`)}
+                              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${augmentation === option ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                            >
+                              {t(`app.accuracy.${option}`)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
+                ) : (
+                  <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <CameraView
+                      onResult={handleLiveResult}
+                      isActive={mode === 'live'}
+                      detectMode={detectMode}
+                      onDetections={handleLiveDetections}
+                      intervalMs={liveSettings.adaptiveInterval ? undefined : liveSettings.intervalMs}
+                      lock={liveLock}
+                      onSnapshot={handleSnapshot}
+                      onFreeze={handleFreeze}
+                    />
+                    <LiveScanSettingsPanel settings={liveSettings} onChange={handleLiveSettingsChange} />
+                  </div>
+                )}
+              </div>
+            
+              <div className="px-6 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('app.model', { model: backend.displayName })}{backend.privacy === 'on-device' && tfBackend ? ` · ${tfBackend}` : ''}</span>
+                </div>
+                {backend.privacy === 'on-device' ? (
+                  <div className="flex items-center gap-4">
+                    <OfflineStatus />
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('app.privacy')}</span>
+                  </div>
+                ) : (
+                  <span className="text-[10px] font-bold text-amber-500 uppercase tracking-widest">{t('app.cloud')}</span>
+                )}
+              </div>
+              {backend.privacy === 'on-device' && <DiagnosticsPanel />}
+            </section>
 
-                  <div className="space-y-4 text-[11px] text-slate-500 bg-slate-50 p-6 rounded-[2rem] border border-slate-100">
-                    <div className="flex justify-between items-center border-b border-slate-200/50 pb-2">
-                      <span className="font-bold uppercase tracking-widest opacity-40">System Reasoning</span>
+            <section className="lg:sticky lg:top-8" aria-label={t('app.results')} aria-busy={isProcessing || isBatchRunning}>
+              {batchItems ? (
+                <BatchResults items={batchItems} isRunning={isBatchRunning} onCancel={() => batchAbortRef.current?.abort()} />
+              ) : previewUrl || (mode === 'live' && (result || detections?.length || isProcessing)) ? (
+                <div className="space-y-6 animate-in fade-in duration-700">
+                  {mode === 'upload' && previewUrl && (
+                    <div className="bg-white p-3 rounded-[3rem] shadow-2xl border border-slate-100 relative overflow-hidden group aspect-square">
+                      <img
+                        src={previewUrl}
+                        onLoad={e => setPreviewSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        className={`w-full h-full object-cover rounded-[2.5rem] transition-all duration-700 ${isProcessing ? 'blur-xl grayscale scale-110 opacity-30' : ''}`}
+                        alt={t('app.preview.alt')}
+                      />
+                      {detections && !isProcessing && (
+                        <div className="absolute inset-3 rounded-[2.5rem] overflow-hidden">
+                          <DetectionOverlay detections={detections} sourceWidth={previewSize.width} sourceHeight={previewSize.height} />
+                        </div>
+                      )}
+                      {showSaliency && result?.saliency && !isProcessing && (
+                        <div className="absolute inset-3 rounded-[2.5rem] overflow-hidden">
+                          <SaliencyOverlay saliency={result.saliency} sourceWidth={previewSize.width} sourceHeight={previewSize.height} />
+                        </div>
+                      )}
+                      {!isProcessing && (
+                        <div className="absolute inset-3 rounded-[2.5rem] overflow-hidden">
+                          <CropSelector
+                            sourceWidth={previewSize.width}
+                            sourceHeight={previewSize.height}
+                            crop={crop}
+                            onSelect={handleCropSelect}
+                          />
+                        </div>
+                      )}
+                      {result?.saliency && !isProcessing && (
+                        <div className="absolute top-6 inset-x-6 flex flex-col items-end gap-2 pointer-events-none">
+                          <button
+                            onClick={() => setShowSaliency(!showSaliency)}
+                            className={`pointer-events-auto px-4 py-2 backdrop-blur-sm rounded-full text-[10px] font-black uppercase tracking-widest shadow-lg transition-colors ${showSaliency ? 'bg-emerald-500 text-white' : 'bg-white/90 text-slate-900 hover:bg-white'}`}
+                          >
+                            {t(showSaliency ? 'saliency.hide' : 'saliency.show')}
+                          </button>
+                          {showSaliency && (
+                            <span className="px-3 py-1.5 bg-black/40 backdrop-blur-sm rounded-full text-[10px] font-bold text-white">
+                              {t('saliency.caption', { label: result.saliency.label })}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {!isProcessing && (
+                        <div className="absolute bottom-6 inset-x-6 flex justify-center pointer-events-none">
+                          {crop ? (
+                            <button
+                              onClick={() => handleCropSelect(null)}
+                              className="pointer-events-auto px-4 py-2 bg-white/90 backdrop-blur-sm rounded-full text-[10px] font-black text-slate-900 uppercase tracking-widest shadow-lg hover:bg-white"
+                            >
+                              {t('app.crop.reset')}
+                            </button>
+                          ) : (
+                            <span className="px-4 py-2 bg-black/40 backdrop-blur-sm rounded-full text-[10px] font-black text-white uppercase tracking-widest">
+                              {t('app.crop.hint')}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {isProcessing && (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4">
+                          <div className="w-12 h-12 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                          <span className="text-[10px] font-black text-slate-900 uppercase tracking-[0.2em] animate-pulse">{t('app.scanning')}</span>
+                        </div>
+                      )}
                     </div>
-                    <p className="italic leading-relaxed">
-                      "{result.reasoning}"
-                    </p>
+                  )}
+
+                  {result && <ResultCard result={result} onCorrect={handleCorrectResult} onContaminatedChange={handleContaminatedResult} />}
+                  {detections?.map((detection, index) => (
+                    <ResultCard
+                      key={index}
+                      result={detection}
+                      index={index}
+                      onCorrect={category => handleCorrectDetection(index, category)}
+                      onContaminatedChange={contaminated => handleContaminatedDetection(index, contaminated)}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="h-full min-h-[500px] border-2 border-dashed border-slate-200 rounded-[3rem] flex flex-col items-center justify-center text-center p-12 opacity-40">
+                  <div className="w-24 h-24 bg-white rounded-full flex items-center justify-center mb-8 shadow-sm">
+                    <svg className="w-10 h-10 text-slate-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path></svg>
                   </div>
+                  <h3 className="text-lg font-bold text-slate-400 uppercase tracking-widest mb-2">{t('app.empty.title')}</h3>
+                  <p className="text-xs text-slate-300 max-w-[200px] leading-relaxed">{t('app.empty.body')}</p>
                 </div>
               )}
-            </div>
-          ) : (
-            <div className="h-full min-h-[500px] border-2 border-dashed border-slate-200 rounded-[3rem] flex flex-col items-center justify-center text-center p-12 opacity-40">
-              <div className="w-24 h-24 bg-white rounded-full flex items-center justify-center mb-8 shadow-sm">
-                <svg className="w-10 h-10 text-slate-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path></svg>
-              </div>
-              <h3 className="text-lg font-bold text-slate-400 uppercase tracking-widest mb-2">Awaiting Analysis</h3>
-              <p className="text-xs text-slate-300 max-w-[200px] leading-relaxed">Position item clearly in the frame or upload a photo to start classification.</p>
-            </div>
-          )}
-        </section>
-      </div>
+            </section>
+          </div>
+        )}
+      </main>
 
       <footer className="mt-20 pt-10 border-t border-slate-100 flex flex-col md:flex-row items-center justify-between gap-8">
         <div className="flex items-center gap-3">
@@ -217,8 +561,8 @@ const App: React.FC = () => {
            <span className="text-[10px] font-black text-slate-900 uppercase tracking-[0.2em]">EcoClear Protocol v2.6.1</span>
         </div>
         <div className="flex gap-6">
-           <span className="text-[9px] font-bold text-slate-300 uppercase tracking-widest">Environmentally Optimized</span>
-           <span className="text-[9px] font-bold text-slate-300 uppercase tracking-widest">Client-Side Logic</span>
+           <span className="text-[9px] font-bold text-slate-300 uppercase tracking-widest">{t('app.footer.optimized')}</span>
+           <span className="text-[9px] font-bold text-slate-300 uppercase tracking-widest">{t(backend.privacy === 'on-device' ? 'app.footer.onDevice' : 'app.footer.cloud')}</span>
         </div>
       </footer>
     </div>
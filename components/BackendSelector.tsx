@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { wasteClassifier } from '../services/wasteClassifier';
+import { ClassifierBackend } from '../types';
+import { useI18n } from './useI18n';
+
+interface BackendSelectorProps {
+  active: ClassifierBackend;
+  disabled?: boolean;
+}
+
+const BackendSelector: React.FC<BackendSelectorProps> = ({ active, disabled }) => {
+  const { t } = useI18n();
+  const [pendingCloud, setPendingCloud] = useState<ClassifierBackend | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchTo = async (backend: ClassifierBackend) => {
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await wasteClassifier.setBackend(backend.id);
+    } catch (err: any) {
+      setError(err.message || t('backend.error.switch'));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleSelect = (backend: ClassifierBackend) => {
+    if (backend.id === active.id) return;
+    if (backend.privacy === 'cloud' && !wasteClassifier.hasCloudConsent()) {
+      setPendingCloud(backend);
+      return;
+    }
+    switchTo(backend);
+  };
+
+  const handleConsent = () => {
+    if (!pendingCloud) return;
+    wasteClassifier.grantCloudConsent();
+    const backend = pendingCloud;
+    setPendingCloud(null);
+    switchTo(backend);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('backend.label')}</span>
+        {wasteClassifier.getBackends().map(backend => (
+          <button
+            key={backend.id}
+            onClick={() => handleSelect(backend)}
+            disabled={disabled || isSwitching || !backend.isAvailable()}
+            title={backend.isAvailable() ? undefined : t('backend.notConfigured')}
+            className={`px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-40 ${backend.id === active.id ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-emerald-400 hover:text-emerald-600'}`}
+          >
+            {backend.displayName}{backend.privacy === 'cloud' ? ` · ${t('backend.cloud')}` : ''}
+          </button>
+        ))}
+      </div>
+
+      {pendingCloud && (
+        <div className="max-w-md bg-amber-50 border border-amber-200 rounded-2xl p-4 text-left animate-in fade-in duration-300">
+          <p className="text-xs text-amber-900 font-medium leading-relaxed mb-3">
+            {t('backend.consent', { name: pendingCloud.displayName })}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={handleConsent} className="px-4 py-2 rounded-xl bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest hover:bg-amber-600 transition-colors">
+              {t('backend.allow')}
+            </button>
+            <button onClick={() => setPendingCloud(null)} className="px-4 py-2 rounded-xl text-[10px] font-black text-amber-700 uppercase tracking-widest hover:bg-amber-100 transition-colors">
+              {t('backend.stay')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-[11px] text-rose-500 font-medium max-w-md">{error}</p>}
+    </div>
+  );
+};
+
+export default BackendSelector;
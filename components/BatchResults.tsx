@@ -0,0 +1,96 @@
+import React from 'react';
+import { BatchItem } from '../types';
+import { batchToCsv, batchToJson } from '../services/batchRunner';
+import { getCategoryStyles } from './categoryStyles';
+import CategoryIcon from './CategoryIcon';
+import { downloadFile } from './download';
+import { useI18n } from './useI18n';
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onCancel: () => void;
+}
+
+const BatchResults: React.FC<BatchResultsProps> = ({ items, isRunning, onCancel }) => {
+  const { t, category, percent, number } = useI18n();
+  const completed = items.filter(item => item.status !== 'pending' && item.status !== 'processing').length;
+  const failed = items.filter(item => item.status === 'error').length;
+  const progress = items.length ? Math.round((completed / items.length) * 100) : 0;
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="bg-white/90 glass-effect p-8 rounded-[3rem] shadow-2xl border border-white/50 space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('batch.title')}</h3>
+          <p className="text-2xl font-black text-slate-900">{number(completed)} / {number(items.length)}</p>
+          {failed > 0 && <p className="text-[11px] font-bold text-rose-500">{t('batch.failed', { count: number(failed) })}</p>}
+        </div>
+        {isRunning ? (
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-rose-100 text-[10px] font-black text-rose-500 uppercase tracking-widest hover:bg-rose-50 transition-colors">
+            {t('batch.cancel')}
+          </button>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(`ecoclear-batch-${stamp}.csv`, batchToCsv(items), 'text/csv')}
+              className="px-3 py-2 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors"
+            >
+              {t('batch.exportCsv')}
+            </button>
+            <button
+              onClick={() => downloadFile(`ecoclear-batch-${stamp}.json`, batchToJson(items))}
+              className="px-3 py-2 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors"
+            >
+              {t('batch.exportJson')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+      </div>
+
+      <div className="max-h-[480px] overflow-y-auto -mx-2">
+        <table className="w-full text-left text-[11px]">
+          <thead>
+            <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-2 py-2">{t('batch.file')}</th>
+              <th className="px-2 py-2">{t('batch.result')}</th>
+              <th className="px-2 py-2 text-right">{t('batch.confidence')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {items.map(item => (
+              <tr key={item.id} className="align-top">
+                <td className="px-2 py-2 font-bold text-slate-700 max-w-[140px] truncate" title={item.filename}>{item.filename}</td>
+                <td className="px-2 py-2">
+                  {item.result ? (
+                    <>
+                      <span className={`inline-flex items-center gap-1 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${getCategoryStyles(item.result.category, item.result.path).light} ${getCategoryStyles(item.result.category, item.result.path).text}`}>
+                        <CategoryIcon category={item.result.category} className="w-3 h-3" />
+                        {category(item.result.category)}
+                      </span>
+                      <span className="block text-slate-500 pt-1">{item.result.label}</span>
+                    </>
+                  ) : (
+                    <span className={item.status === 'error' ? 'text-rose-500 font-medium' : 'text-slate-400'}>
+                      {item.error || t(`batch.status.${item.status}`)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-2 py-2 text-right font-bold text-slate-500">
+                  {item.result ? percent(item.result.confidence) : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchResults;
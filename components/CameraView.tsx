@@ -1,55 +1,267 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import { wasteClassifier } from '../services/wasteClassifier';
-import { ClassificationResult } from '../types';
+import { telemetry } from '../services/telemetry';
+import {
+  CameraControls,
+  CameraErrorKind,
+  canUseCamera,
+  drawRegion,
+  focusAt,
+  getCameraErrorGuidance,
+  getCameraErrorKind,
+  getControls,
+  listVideoDevices,
+  regionAround,
+  setTorch,
+  setZoom,
+  takeSnapshot
+} from '../services/camera';
+import { CROP_KEYBOARD_STEP, STORAGE_KEYS } from '../constants';
+import { BoundingBox, ClassificationResult, DetectionResult } from '../types';
+import DetectionOverlay from './DetectionOverlay';
+import SaliencyOverlay from './SaliencyOverlay';
+import { toSourcePoint } from './objectCover';
+import { ARROW_STEPS } from './arrowKeys';
+import CustomClassTrainer from './CustomClassTrainer';
+import { useI18n } from './useI18n';
 
 interface CameraViewProps {
-  onResult: (result: ClassificationResult) => void;
+  onResult: (result: ClassificationResult, frame: HTMLVideoElement) => void;
   isActive: boolean;
+  detectMode?: boolean;
+  onDetections?: (results: DetectionResult[], frame: HTMLVideoElement) => void;
+  // Fixed pause between frames; without one the pause follows the measured inference latency
+  intervalMs?: number;
+  // Temporal-smoothing state for the single-object scan indicator
+  lock?: { locked: boolean; stability: number };
+  // Receives a full-quality still to classify through the upload flow
+  onSnapshot?: (file: File) => void;
+  // Receives the explained result of a frozen frame, and null when scanning resumes
+  onFreeze?: (result: ClassificationResult | null) => void;
 }
 
-const CameraView: React.FC<CameraViewProps> = ({ onResult, isActive }) => {
+const CameraView: React.FC<CameraViewProps> = ({ onResult, isActive, detectMode = false, onDetections, intervalMs, lock, onSnapshot, onFreeze }) => {
+  const { t } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<CameraErrorKind | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [detections, setDetections] = useState<DetectionResult[]>([]);
+  const [showTrainer, setShowTrainer] = useState(false);
+  // Barcode and resin-code reading slows each frame down, so it is opt-in for Live Scan
+  const [scanCodes, setScanCodes] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEYS.cameraDevice));
+  const [controls, setControls] = useState<CameraControls | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState(1);
+  // Tapped region of interest in video pixels; frames are cropped to it before classification
+  const [region, setRegion] = useState<BoundingBox | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  // The paused frame's result, with a saliency map; scanning stops while it is shown
+  const [frozen, setFrozen] = useState<ClassificationResult | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const isFrozenRef = useRef(false);
   const requestRef = useRef<number | null>(null);
   const isProcessingRef = useRef<boolean>(false);
+  const streamRef = useRef<MediaStream | null>(null);
+  const cropCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  const startCamera = async () => {
+  // The scan loop outlives individual renders, so it reads the latest props through refs
+  const detectModeRef = useRef(detectMode);
+  const onResultRef = useRef(onResult);
+  const onDetectionsRef = useRef(onDetections);
+  const intervalRef = useRef(intervalMs);
+  const scanCodesRef = useRef(scanCodes);
+  const regionRef = useRef(region);
+  detectModeRef.current = detectMode;
+  regionRef.current = region;
+  scanCodesRef.current = scanCodes;
+  intervalRef.current = intervalMs;
+  onResultRef.current = onResult;
+  onDetectionsRef.current = onDetections;
+
+  const getTrack = () => streamRef.current?.getVideoTracks()[0] ?? null;
+
+  const startCamera = async (preferredId: string | null = deviceId) => {
+    setError(null);
+    if (!canUseCamera()) {
+      setError('unsupported');
+      return;
+    }
+
+    let stream: MediaStream;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: 'environment', 
-          width: { ideal: 640 }, 
-          height: { ideal: 640 } 
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          ...(preferredId ? { deviceId: { exact: preferredId } } : { facingMode: 'environment' }),
+          width: { ideal: 640 },
+          height: { ideal: 640 }
         },
         audio: false
       });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setIsStreaming(true);
-      }
     } catch (err) {
-      setError("Camera access blocked. Please enable permissions and refresh.");
+      if (preferredId && getCameraErrorKind(err) === 'no-device') {
+        // The remembered camera is gone, so fall back to the default one
+        localStorage.removeItem(STORAGE_KEYS.cameraDevice);
+        setDeviceId(null);
+        return startCamera(null);
+      }
+      setError(getCameraErrorKind(err));
+      return;
+    }
+
+    if (!videoRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
     }
+    streamRef.current = stream;
+    videoRef.current.srcObject = stream;
+
+    const track = stream.getVideoTracks()[0];
+    const trackControls = getControls(track);
+    setControls(trackControls);
+    setTorchOn(false);
+    setZoomLevel((track.getSettings() as { zoom?: number }).zoom ?? trackControls.zoom?.min ?? 1);
+    setRegion(null);
+    setIsStreaming(true);
+    // Device labels are only exposed once permission has been granted
+    listVideoDevices().then(setDevices).catch(() => setDevices([]));
   };
 
   const stopCamera = () => {
-    if (videoRef.current?.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => track.stop());
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
     setIsStreaming(false);
+    isFrozenRef.current = false;
+    setFrozen(null);
     if (requestRef.current) {
       window.clearTimeout(requestRef.current);
       requestRef.current = null;
     }
     isProcessingRef.current = false;
+    wasteClassifier.cancelFrames();
+  };
+
+  const switchCamera = () => {
+    if (devices.length < 2) return;
+    const index = devices.findIndex(device => device.deviceId === (deviceId ?? getTrack()?.getSettings().deviceId));
+    const next = devices[(index + 1) % devices.length].deviceId;
+    localStorage.setItem(STORAGE_KEYS.cameraDevice, next);
+    setDeviceId(next);
+    stopCamera();
+    startCamera(next);
+  };
+
+  const toggleTorch = async () => {
+    const track = getTrack();
+    if (!track) return;
+    try {
+      await setTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.warn('Could not switch the torch:', err);
+    }
+  };
+
+  const handleZoom = (value: number) => {
+    const track = getTrack();
+    setZoomLevel(value);
+    track && setZoom(track, value).catch(err => console.warn('Could not zoom:', err));
+  };
+
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video || !isStreaming || !video.videoWidth || isFrozenRef.current) return;
+    const point = toSourcePoint(video.getBoundingClientRect(), video.videoWidth, video.videoHeight, e.clientX, e.clientY);
+    if (point.x < 0 || point.y < 0 || point.x > video.videoWidth || point.y > video.videoHeight) return;
+    selectRegion(video, point);
+  };
+
+  /**
+   * The keyboard's version of tapping: Enter picks the centre, arrows move
+   * the region and Escape goes back to the full frame.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys on the buttons over the preview are theirs
+    if (e.target !== e.currentTarget) return;
+    const video = videoRef.current;
+    if (!video || !isStreaming || !video.videoWidth || isFrozenRef.current) return;
+
+    const step = ARROW_STEPS[e.key];
+    if (step || e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      const { videoWidth: width, videoHeight: height } = video;
+      const centre = region
+        ? { x: region.x + region.width / 2, y: region.y + region.height / 2 }
+        : { x: width / 2, y: height / 2 };
+      const distance = Math.min(width, height) * CROP_KEYBOARD_STEP;
+      selectRegion(video, step ? { x: centre.x + step.dx * distance, y: centre.y + step.dy * distance } : centre);
+    } else if (e.key === 'Escape' && region) {
+      e.preventDefault();
+      setRegion(null);
+    }
+  };
+
+  const selectRegion = (video: HTMLVideoElement, point: { x: number; y: number }) => {
+    setRegion(regionAround(point, video.videoWidth, video.videoHeight));
+    const track = getTrack();
+    track && focusAt(track, point.x / video.videoWidth, point.y / video.videoHeight).catch(() => undefined);
+  };
+
+  const handleSnapshot = async () => {
+    const video = videoRef.current;
+    if (!video || !onSnapshot) return;
+    setIsCapturing(true);
+    try {
+      onSnapshot(await takeSnapshot(video, getTrack()));
+    } catch (err) {
+      console.warn('Snapshot failed:', err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  /** Pauses on the current frame and classifies it with a saliency map. */
+  const handleExplain = async () => {
+    const video = videoRef.current;
+    if (!video || !onFreeze || !video.videoWidth) return;
+    isFrozenRef.current = true;
+    video.pause();
+    wasteClassifier.cancelFrames();
+    setIsExplaining(true);
+
+    // Classified as a still copy so it isn't queued, or dropped, like a Live Scan frame
+    const roi = regionRef.current;
+    const still = drawRegion(video, roi ?? { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight }, document.createElement('canvas'));
+    try {
+      const result = await wasteClassifier.classifyElement(still, { explain: true });
+      const explained = result.saliency && roi ? { ...result, saliency: { ...result.saliency, box: roi } } : result;
+      if (!isFrozenRef.current) return;
+      setFrozen(explained);
+      setShowHeatmap(true);
+      onFreeze(explained);
+    } catch (err) {
+      console.warn('Could not explain the frame:', err);
+      handleResume();
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  const handleResume = () => {
+    isFrozenRef.current = false;
+    setFrozen(null);
+    videoRef.current?.play().catch(() => undefined);
+    onFreeze?.(null);
   };
 
   const processFrame = async () => {
-    if (!isActive || !isStreaming || isProcessingRef.current) {
+    if (!isActive || !isStreaming || isProcessingRef.current || isFrozenRef.current) {
       scheduleNext();
       return;
     }
@@ -57,9 +269,28 @@ const CameraView: React.FC<CameraViewProps> = ({ onResult, isActive }) => {
     const video = videoRef.current;
     if (video && video.readyState >= 3) { 
       isProcessingRef.current = true;
+      const roi = regionRef.current;
+      if (roi && !cropCanvasRef.current) cropCanvasRef.current = document.createElement('canvas');
+      const source = roi ? drawRegion(video, roi, cropCanvasRef.current!) : video;
       try {
-        const result = await wasteClassifier.classifyElement(video);
-        onResult(result);
+        if (detectModeRef.current) {
+          const found = await wasteClassifier.detectElement(source, { frame: true });
+          // Boxes come back relative to the crop; the overlay draws over the whole frame
+          const results = roi
+            ? found.map(d => ({ ...d, box: { ...d.box, x: d.box.x + roi.x, y: d.box.y + roi.y } }))
+            : found;
+          setDetections(results);
+          onDetectionsRef.current?.(results, video);
+        } else {
+          const result = scanCodesRef.current
+            ? await wasteClassifier.classifyWithCodes(source, { frame: true })
+            : await wasteClassifier.classifyElement(source, { frame: true });
+          // A frame already in flight when the view froze must not replace the explained one
+          if (!isFrozenRef.current) {
+            setDetections([]);
+            onResultRef.current(result, video);
+          }
+        }
       } catch (e) {
         // Silent fail for individual frames
       } finally {
@@ -71,10 +302,9 @@ const CameraView: React.FC<CameraViewProps> = ({ onResult, isActive }) => {
 
   const scheduleNext = () => {
     if (isActive && isStreaming) {
-      // Local inference is fast! We can scan much more frequently (800ms)
       requestRef.current = window.setTimeout(() => {
         processFrame();
-      }, 800) as unknown as number;
+      }, intervalRef.current ?? telemetry.getFrameIntervalMs(detectModeRef.current ? 'detect' : 'classify')) as unknown as number;
     }
   };
 
@@ -93,8 +323,196 @@ const CameraView: React.FC<CameraViewProps> = ({ onResult, isActive }) => {
     }
   }, [isStreaming, isActive]);
 
+  useEffect(() => {
+    if (!detectMode) setDetections([]);
+    if (detectMode && isFrozenRef.current) handleResume();
+    // A frame queued for the other mode would come back as the wrong kind of result
+    wasteClassifier.cancelFrames();
+  }, [detectMode]);
+
   if (error) {
+    const guidance = getCameraErrorGuidance(error);
     return (
       <div className="bg-rose-50 p-8 rounded-[2.5rem] border border-rose-100 text-center animate-in fade-in zoom-in duration-300">
         <div className="w-16 h-16 bg-rose-100 text-rose-600 rounded-full flex items-center justify-center mx-auto mb-4">
-          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 
\ No newline at end of file
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>
+        </div>
+        <h3 className="text-lg font-bold text-rose-800 mb-2">{guidance.title}</h3>
+        <p className="text-xs text-rose-600 font-medium leading-relaxed">{guidance.message}</p>
+        {error !== 'unsupported' && (
+          <button
+            onClick={() => startCamera()}
+            className="mt-6 px-6 py-2.5 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-600 transition-colors"
+          >
+            {t('app.tryAgain')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        className="relative w-full aspect-square rounded-[2rem] overflow-hidden bg-slate-900 shadow-inner focus-visible:[outline-offset:-4px]"
+        onClick={handleTap}
+        onKeyDown={handleKeyDown}
+        tabIndex={isStreaming && !frozen ? 0 : -1}
+        role="group"
+        aria-label={t('camera.region.label')}
+      >
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full h-full object-cover"
+        />
+        <DetectionOverlay
+          detections={detections}
+          sourceWidth={videoRef.current?.videoWidth ?? 0}
+          sourceHeight={videoRef.current?.videoHeight ?? 0}
+        />
+        {frozen?.saliency && showHeatmap && videoRef.current && (
+          <SaliencyOverlay saliency={frozen.saliency} sourceWidth={videoRef.current.videoWidth} sourceHeight={videoRef.current.videoHeight} />
+        )}
+        {region && videoRef.current && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+            preserveAspectRatio="xMidYMid slice"
+          >
+            <rect x={region.x} y={region.y} width={region.width} height={region.height} fill="none" stroke="white" strokeWidth={3} strokeDasharray="12 8" rx={12} />
+          </svg>
+        )}
+        {!isStreaming ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4">
+            <div className="w-10 h-10 border-2 border-emerald-400 border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-[10px] font-black text-white/70 uppercase tracking-[0.2em]">{t('camera.starting')}</span>
+          </div>
+        ) : (
+          <div className={`absolute top-4 left-4 flex items-center gap-2 backdrop-blur-sm px-3 py-1.5 rounded-full transition-colors ${!detectMode && lock?.locked ? 'bg-emerald-500/90' : 'bg-black/40'}`}>
+            {!detectMode && lock?.locked ? (
+              <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"></path></svg>
+            ) : (
+              <span className="w-2 h-2 bg-rose-500 rounded-full animate-pulse"></span>
+            )}
+            <span className="text-[10px] font-black text-white uppercase tracking-widest">
+              {t(detectMode ? 'camera.status.multi' : frozen ? 'camera.status.frozen' : lock?.locked ? 'camera.status.locked' : 'camera.status.live')}
+            </span>
+          </div>
+        )}
+        {isStreaming && !detectMode && !frozen && lock && !lock.locked && (
+          <div className="absolute bottom-0 inset-x-0 h-1 bg-black/30">
+            <div className="h-full bg-emerald-400 transition-all duration-300" style={{ width: `${Math.round(lock.stability * 100)}%` }}></div>
+          </div>
+        )}
+        {isStreaming && (
+          <div className="absolute top-4 right-4 flex gap-2" onClick={e => e.stopPropagation()}>
+            {region && (
+              <button
+                onClick={() => setRegion(null)}
+                title={t('camera.fullFrame.title')}
+                className="px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors bg-white text-slate-900 hover:bg-slate-100"
+              >
+                {t('camera.fullFrame')}
+              </button>
+            )}
+            {!detectMode && onFreeze && (frozen ? (
+              <>
+                {frozen.saliency && (
+                  <button
+                    onClick={() => setShowHeatmap(!showHeatmap)}
+                    title={t('saliency.caption', { label: frozen.saliency.label })}
+                    className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors ${showHeatmap ? 'bg-emerald-500 text-white' : 'bg-black/40 text-white hover:bg-black/60'}`}
+                  >
+                    {t('camera.heatmap')}
+                  </button>
+                )}
+                <button
+                  onClick={handleResume}
+                  className="px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors bg-white text-slate-900 hover:bg-slate-100"
+                >
+                  {t('camera.resume')}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleExplain}
+                disabled={isExplaining}
+                title={t('camera.explain.title')}
+                className="px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors bg-black/40 text-white hover:bg-black/60 disabled:opacity-50"
+              >
+                {t(isExplaining ? 'camera.explaining' : 'camera.explain')}
+              </button>
+            ))}
+            {!detectMode && (
+              <button
+                onClick={() => setScanCodes(!scanCodes)}
+                title={t('camera.codes.title')}
+                className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors ${scanCodes ? 'bg-emerald-500 text-white' : 'bg-black/40 text-white hover:bg-black/60'}`}
+              >
+                {t('camera.codes')}
+              </button>
+            )}
+            <button
+              onClick={() => setShowTrainer(!showTrainer)}
+              className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest backdrop-blur-sm transition-colors ${showTrainer ? 'bg-emerald-500 text-white' : 'bg-black/40 text-white hover:bg-black/60'}`}
+            >
+              {t('camera.teach')}
+            </button>
+          </div>
+        )}
+        {isStreaming && (
+          <div className="absolute bottom-4 inset-x-4 flex items-center justify-between gap-3" onClick={e => e.stopPropagation()}>
+            <div className="flex gap-2">
+              {devices.length > 1 && (
+                <button
+                  onClick={switchCamera}
+                  title={t('camera.switch')}
+                  className="w-9 h-9 rounded-full flex items-center justify-center backdrop-blur-sm bg-black/40 text-white hover:bg-black/60 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path></svg>
+                </button>
+              )}
+              {controls?.torch && (
+                <button
+                  onClick={toggleTorch}
+                  title={t(torchOn ? 'camera.torch.off' : 'camera.torch.on')}
+                  className={`w-9 h-9 rounded-full flex items-center justify-center backdrop-blur-sm transition-colors ${torchOn ? 'bg-amber-400 text-slate-900' : 'bg-black/40 text-white hover:bg-black/60'}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>
+                </button>
+              )}
+            </div>
+            {controls?.zoom && (
+              <input
+                type="range"
+                min={controls.zoom.min}
+                max={controls.zoom.max}
+                step={controls.zoom.step}
+                value={zoom}
+                onChange={e => handleZoom(Number(e.target.value))}
+                aria-label={t('camera.zoom')}
+                className="flex-1 max-w-[40%] accent-emerald-400"
+              />
+            )}
+            {onSnapshot && (
+              <button
+                onClick={handleSnapshot}
+                disabled={isCapturing}
+                title={t('camera.snapshot.title')}
+                className="w-12 h-12 rounded-full border-4 border-white/80 bg-white/30 backdrop-blur-sm hover:bg-white/50 disabled:opacity-50 transition-colors"
+              >
+                <span className="sr-only">{t('camera.snapshot')}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {showTrainer && <CustomClassTrainer getFrame={() => videoRef.current} />}
+    </div>
+  );
+};
+
+export default CameraView;
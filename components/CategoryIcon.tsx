@@ -0,0 +1,27 @@
+import React from 'react';
+import { WasteCategory } from '../types';
+
+// 24x24 stroke paths, so a category reads the same without its colour
+const PATHS: Record<WasteCategory, string> = {
+  [WasteCategory.ORGANIC]: 'M5 21c0-9 5-15 15-16-1 10-7 15-15 16zM5 21l8-8',
+  [WasteCategory.PLASTIC]: 'M10 2h4v3l2 3v12a2 2 0 01-2 2h-4a2 2 0 01-2-2V8l2-3V2zM8 12h8',
+  [WasteCategory.PAPER]: 'M6 2h8l4 4v16H6V2zM14 2v4h4M9 11h6M9 15h6M9 19h4',
+  [WasteCategory.METAL]: 'M6 5c0-1.7 2.7-3 6-3s6 1.3 6 3v14c0 1.7-2.7 3-6 3s-6-1.3-6-3V5zM6 5c0 1.7 2.7 3 6 3s6-1.3 6-3',
+  [WasteCategory.GLASS]: 'M7 2h10l-1 8a4 4 0 01-8 0L7 2zM12 14v6M8 22h8',
+  [WasteCategory.E_WASTE]: 'M13 2L4 14h7l-1 8 9-12h-7l1-8z',
+  [WasteCategory.UNKNOWN]: 'M9 9a3 3 0 116 0c0 2-3 2-3 5M12 18h.01'
+};
+
+interface CategoryIconProps {
+  category: WasteCategory;
+  className?: string;
+}
+
+/** Shape for a category; decorative, since the category's name is always shown beside it. */
+const CategoryIcon: React.FC<CategoryIconProps> = ({ category, className = 'w-4 h-4' }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" aria-hidden="true" focusable="false">
+    <path d={PATHS[category] ?? PATHS[WasteCategory.UNKNOWN]} />
+  </svg>
+);
+
+export default CategoryIcon;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { labelOverrides } from '../services/labelOverrides';
+import { WasteCategory } from '../types';
+import { getCategoryStyles } from './categoryStyles';
+import { downloadFile } from './download';
+import { useI18n } from './useI18n';
+
+const CorrectionsManager: React.FC = () => {
+  const { t, category: categoryName, number } = useI18n();
+  const [overrides, setOverrides] = useState<Record<string, WasteCategory>>(() => labelOverrides.getAll());
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => labelOverrides.subscribe(() => setOverrides(labelOverrides.getAll())), []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = labelOverrides.import(await file.text());
+      setMessage({ text: t(count === 1 ? 'corrections.imported.one' : 'corrections.imported', { count: number(count) }), isError: false });
+    } catch (err: any) {
+      setMessage({ text: err.message || t('corrections.error.import'), isError: true });
+    }
+  };
+
+  const entries = (Object.entries(overrides) as [string, WasteCategory][]).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="bg-white/90 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('corrections.title')}</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile('ecoclear-corrections.json', labelOverrides.export())}
+            disabled={entries.length === 0}
+            className="px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors disabled:opacity-40"
+          >
+            {t('corrections.export')}
+          </button>
+          <label className="px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer hover:text-emerald-600 hover:border-emerald-400 transition-colors">
+            {t('corrections.import')}
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-[11px] font-medium ${message.isError ? 'text-rose-500' : 'text-emerald-600'}`}>{message.text}</p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-400">{t('corrections.empty', { action: t('result.correct') })}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {entries.map(([label, category]) => (
+            <li key={label} className="flex items-center justify-between py-2 gap-3">
+              <span className="text-xs font-bold text-slate-700 truncate">{label}</span>
+              <div className="flex items-center gap-2">
+                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${getCategoryStyles(category).light} ${getCategoryStyles(category).text}`}>
+                  {categoryName(category)}
+                </span>
+                <button onClick={() => labelOverrides.remove(label)} className="p-1 text-slate-300 hover:text-rose-500 transition-colors" aria-label={t('corrections.forget', { label })}>
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionsManager;
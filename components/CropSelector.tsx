@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { CropBox } from '../types';
+import { CROP_KEYBOARD_SIZE, CROP_KEYBOARD_STEP, CROP_MIN_FRACTION } from '../constants';
+import { toSourcePoint } from './objectCover';
+import { ARROW_STEPS } from './arrowKeys';
+import { useI18n } from './useI18n';
+
+interface CropSelectorProps {
+  // Intrinsic size of the previewed image
+  sourceWidth: number;
+  sourceHeight: number;
+  crop: CropBox | null;
+  onSelect: (crop: CropBox) => void;
+  disabled?: boolean;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const clamp01 = (value: number) => clamp(value, 0, 1);
+
+const CENTRED: CropBox = {
+  x: (1 - CROP_KEYBOARD_SIZE) / 2,
+  y: (1 - CROP_KEYBOARD_SIZE) / 2,
+  width: CROP_KEYBOARD_SIZE,
+  height: CROP_KEYBOARD_SIZE
+};
+
+const moveBox = (box: CropBox, dx: number, dy: number): CropBox => ({
+  ...box,
+  x: clamp(box.x + dx, 0, 1 - box.width),
+  y: clamp(box.y + dy, 0, 1 - box.height)
+});
+
+const resizeBox = (box: CropBox, dx: number, dy: number): CropBox => ({
+  ...box,
+  width: clamp(box.width + dx, CROP_MIN_FRACTION, 1 - box.x),
+  height: clamp(box.height + dy, CROP_MIN_FRACTION, 1 - box.y)
+});
+
+/**
+ * Lets the user drag a box over an `object-cover` preview, or place it with
+ * the keyboard: arrows move it, Shift+arrows resize it and Enter scans it.
+ * The box is reported as fractions of the image, so it applies at any
+ * resolution.
+ */
+const CropSelector: React.FC<CropSelectorProps> = ({ sourceWidth, sourceHeight, crop, onSelect, disabled }) => {
+  const { t, percent } = useI18n();
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropBox | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const toFraction = (e: React.PointerEvent) => {
+    const point = toSourcePoint(ref.current!.getBoundingClientRect(), sourceWidth, sourceHeight, e.clientX, e.clientY);
+    return { x: clamp01(point.x / sourceWidth), y: clamp01(point.y / sourceHeight) };
+  };
+
+  const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): CropBox => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(toFraction(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (start) setDraft(boxBetween(start, toFraction(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    const box = boxBetween(start, toFraction(e));
+    setStart(null);
+    setDraft(null);
+    if (box.width >= CROP_MIN_FRACTION && box.height >= CROP_MIN_FRACTION) onSelect(box);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    const step = ARROW_STEPS[e.key];
+    if (step) {
+      e.preventDefault();
+      const base = draft ?? crop ?? CENTRED;
+      const dx = step.dx * CROP_KEYBOARD_STEP;
+      const dy = step.dy * CROP_KEYBOARD_STEP;
+      setDraft(e.shiftKey ? resizeBox(base, dx, dy) : moveBox(base, dx, dy));
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      const box = draft ?? (crop ? null : CENTRED);
+      setDraft(null);
+      if (box) onSelect(box);
+    } else if (e.key === 'Escape' && draft) {
+      e.preventDefault();
+      setDraft(null);
+    }
+  };
+
+  // A box placed with the keyboard but never scanned is dropped on leaving
+  const handleBlur = () => {
+    if (!start) setDraft(null);
+  };
+
+  const shown = draft ?? crop;
+  const stroke = Math.max(2, Math.round(Math.min(sourceWidth, sourceHeight) / 150));
+
+  return (
+    <div
+      ref={ref}
+      className={`absolute inset-0 touch-none focus-visible:[outline-offset:-4px] ${disabled ? '' : 'cursor-crosshair'}`}
+      tabIndex={disabled ? -1 : 0}
+      role="group"
+      aria-label={t('app.crop.label')}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { setStart(null); setDraft(null); }}
+    >
+      <span className="sr-only" aria-live="polite">
+        {draft && !start
+          ? t('app.crop.position', { left: percent(draft.x), top: percent(draft.y), width: percent(draft.width), height: percent(draft.height) })
+          : ''}
+      </span>
+      {shown && (
+        <svg className="w-full h-full pointer-events-none" viewBox={`0 0 ${sourceWidth} ${sourceHeight}`} preserveAspectRatio="xMidYMid slice">
+          <rect
+            x={shown.x * sourceWidth}
+            y={shown.y * sourceHeight}
+            width={shown.width * sourceWidth}
+            height={shown.height * sourceHeight}
+            fill="rgba(255,255,255,0.1)"
+            stroke="white"
+            strokeWidth={stroke}
+            strokeDasharray={`${stroke * 4} ${stroke * 3}`}
+            rx={stroke * 2}
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default CropSelector;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { customClassifier } from '../services/customClassifier';
+import { rulePackManager } from '../services/rulePacks';
+import { wasteClassifier } from '../services/wasteClassifier';
+import { mapLabelToWaste } from '../services/labelMapping';
+import { CustomClassSummary, WasteCategory } from '../types';
+import { getCategoryStyles } from './categoryStyles';
+import { downloadFile } from './download';
+import { useI18n } from './useI18n';
+
+interface CustomClassTrainerProps {
+  // Returns the live frame to capture samples from
+  getFrame: () => HTMLVideoElement | null;
+}
+
+const CustomClassTrainer: React.FC<CustomClassTrainerProps> = ({ getFrame }) => {
+  const { t, category: categoryName, number } = useI18n();
+  const [classes, setClasses] = useState<CustomClassSummary[]>(() => customClassifier.getClasses());
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<WasteCategory>(WasteCategory.UNKNOWN);
+  // Once the user picks a bin, typing no longer changes the suggestion
+  const [categoryPicked, setCategoryPicked] = useState(false);
+  const [instructions, setInstructions] = useState('');
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => customClassifier.subscribe(() => setClasses(customClassifier.getClasses())), []);
+
+  const handleAddClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await customClassifier.addClass(name, category, instructions);
+      setName('');
+      setInstructions('');
+      setCategoryPicked(false);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('trainer.error.save'));
+    }
+  };
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (categoryPicked) return;
+    // The active pack carries the UI language's keywords, so "botella" suggests Plastic too
+    const match = mapLabelToWaste(value, { pack: rulePackManager.getActivePack() });
+    setCategory(match?.mapping.category ?? WasteCategory.UNKNOWN);
+  };
+
+  const handleCapture = async (classId: string) => {
+    const frame = getFrame();
+    if (!frame || frame.readyState < 2) return;
+    setCapturingId(classId);
+    try {
+      await wasteClassifier.addCustomSample(frame, classId);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('trainer.error.capture'));
+    } finally {
+      setCapturingId(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (classes.length > 0 && !window.confirm(t('trainer.confirmImport'))) return;
+
+    try {
+      await customClassifier.import(await file.text());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('trainer.error.import'));
+    }
+  };
+
+  const handleExport = async () => {
+    downloadFile('ecoclear-custom-classes.json', await customClassifier.export());
+  };
+
+  const categoryOptions = [...rulePackManager.getActivePack().categories.map(c => c.category), WasteCategory.UNKNOWN];
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('trainer.title')}</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={classes.length === 0}
+            className="px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors disabled:opacity-40"
+          >
+            {t('trainer.export')}
+          </button>
+          <label className="px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer hover:text-emerald-600 hover:border-emerald-400 transition-colors">
+            {t('trainer.import')}
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-[11px] text-rose-500 font-medium">{error}</p>}
+
+      <ul className="space-y-2">
+        {classes.map(c => (
+          <li key={c.id} className="flex items-center gap-3 bg-slate-50 rounded-2xl px-4 py-3 border border-slate-100">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-bold text-slate-800 truncate">{c.name}</p>
+              <p className={`text-[10px] font-black uppercase tracking-widest ${getCategoryStyles(c.category).text}`}>
+                {categoryName(c.category)} · {t(c.sampleCount === 1 ? 'trainer.samples.one' : 'trainer.samples', { count: number(c.sampleCount) })}
+              </p>
+            </div>
+            <button
+              onClick={() => handleCapture(c.id)}
+              disabled={capturingId !== null}
+              className="px-3 py-1.5 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              {t(capturingId === c.id ? 'trainer.capturing' : 'trainer.addSample')}
+            </button>
+            <button onClick={() => customClassifier.removeClass(c.id)} className="p-1 text-slate-300 hover:text-rose-500 transition-colors" aria-label={t('trainer.delete', { name: c.name })}>
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAddClass} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={e => handleNameChange(e.target.value)}
+            placeholder={t('trainer.name')}
+            aria-label={t('trainer.name')}
+            className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400"
+          />
+          <select
+            value={category}
+            onChange={e => { setCategory(e.target.value as WasteCategory); setCategoryPicked(true); }}
+            aria-label={t('trainer.category')}
+            className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700"
+          >
+            {categoryOptions.map(c => <option key={c} value={c}>{categoryName(c)}</option>)}
+          </select>
+        </div>
+        <input
+          value={instructions}
+          onChange={e => setInstructions(e.target.value)}
+          placeholder={t('trainer.instructions')}
+          aria-label={t('trainer.instructions')}
+          className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs text-slate-700 focus:outline-none focus:border-emerald-400"
+        />
+        <button type="submit" className="w-full px-4 py-2.5 rounded-xl border border-emerald-200 text-[10px] font-black text-emerald-600 uppercase tracking-widest hover:bg-emerald-50 transition-colors">
+          {t('trainer.add')}
+        </button>
+      </form>
+      <p className="text-[10px] text-slate-400 leading-relaxed">
+        {t('trainer.hint')}
+      </p>
+    </div>
+  );
+};
+
+export default CustomClassTrainer;
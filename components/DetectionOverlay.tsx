@@ -0,0 +1,48 @@
+import React from 'react';
+import { DetectionResult } from '../types';
+import { getCategoryStyles } from './categoryStyles';
+import { useI18n } from './useI18n';
+
+interface DetectionOverlayProps {
+  detections: DetectionResult[];
+  // Intrinsic size of the image/video the boxes were measured against
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Draws labelled boxes over an image or video. The SVG viewBox uses source
+ * pixels and `slice` scaling, so it lines up with `object-cover` media.
+ */
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ detections, sourceWidth, sourceHeight }) => {
+  const { category } = useI18n();
+  if (!sourceWidth || !sourceHeight || detections.length === 0) return null;
+
+  const stroke = Math.max(2, Math.round(Math.min(sourceWidth, sourceHeight) / 150));
+  const fontSize = Math.max(12, Math.round(Math.min(sourceWidth, sourceHeight) / 28));
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${sourceWidth} ${sourceHeight}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      {detections.map((detection, index) => {
+        const { hex } = getCategoryStyles(detection.category, detection.path);
+        const { x, y, width, height } = detection.box;
+        const caption = `${index + 1} · ${category(detection.category)}`;
+        return (
+          <g key={index}>
+            <rect x={x} y={y} width={width} height={height} fill="none" stroke={hex} strokeWidth={stroke} rx={stroke * 2} />
+            <rect x={x} y={Math.max(0, y - fontSize * 1.5)} width={caption.length * fontSize * 0.62 + fontSize} height={fontSize * 1.5} fill={hex} rx={stroke * 2} />
+            <text x={x + fontSize / 2} y={Math.max(0, y - fontSize * 1.5) + fontSize * 1.1} fill="white" fontSize={fontSize} fontWeight={800}>
+              {caption}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { LatencyStats } from '../types';
+import { DIAGNOSTICS_REFRESH_MS } from '../constants';
+import { wasteClassifier } from '../services/wasteClassifier';
+import { inferenceClient } from '../services/inference/inferenceClient';
+import { TensorMemory } from '../services/inference/protocol';
+import { estimateLatencyMs, modelProfiles } from '../services/modelProfiles';
+import { telemetry } from '../services/telemetry';
+import { useI18n } from './useI18n';
+
+const AUTO = 'auto';
+
+/**
+ * Model profile choice plus how the on-device model performs here: load
+ * time, latency, TensorFlow.js backend and tensor memory. Figures stay local.
+ */
+const DiagnosticsPanel: React.FC = () => {
+  const { t, number } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [, setVersion] = useState(0);
+  const [memory, setMemory] = useState<TensorMemory | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => setVersion(v => v + 1);
+    const unsubscribeTelemetry = telemetry.subscribe(refresh);
+    const unsubscribeProfiles = modelProfiles.subscribe(refresh);
+
+    const poll = () => inferenceClient.getMemory().then(setMemory).catch(() => setMemory(null));
+    poll();
+    const timer = window.setInterval(poll, DIAGNOSTICS_REFRESH_MS);
+    return () => {
+      unsubscribeTelemetry();
+      unsubscribeProfiles();
+      window.clearInterval(timer);
+    };
+  }, [isOpen]);
+
+  const handleProfileChange = async (value: string) => {
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await wasteClassifier.setModelProfile(value === AUTO ? null : value);
+    } catch (err: any) {
+      setError(err.message || t('diagnostics.error.switch'));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const ms = (value: number) => t('diagnostics.ms', { value: number(value, { maximumFractionDigits: value < 10 ? 1 : 0 }) });
+  const mb = (bytes: number) => t('diagnostics.mb', { value: number(bytes / 1048576, { maximumFractionDigits: 1 }) });
+  const latency = (stats: LatencyStats | null) => stats
+    ? t('diagnostics.latency.value', { last: ms(stats.lastMs), mean: ms(stats.meanMs), p95: ms(stats.p95Ms), count: stats.count })
+    : t('diagnostics.none');
+
+  const load = telemetry.getLoad();
+  const benchmarkMs = modelProfiles.getBenchmarkMs();
+  const recommended = modelProfiles.getRecommended();
+  const override = modelProfiles.getOverride();
+  const detectLatency = telemetry.getLatency('detect');
+
+  const rows: { label: string; value: string }[] = [
+    { label: t('diagnostics.model'), value: load ? load.profile.name : t('diagnostics.loading') },
+    { label: t('diagnostics.loadTime'), value: load ? ms(load.loadMs) : t('diagnostics.none') },
+    {
+      label: t('diagnostics.backend'),
+      value: load ? `${load.backend} · ${t(load.inWorker ? 'diagnostics.worker' : 'diagnostics.mainThread')}` : t('diagnostics.none')
+    },
+    {
+      label: t('diagnostics.benchmark'),
+      value: benchmarkMs === null
+        ? t('diagnostics.none')
+        : t('diagnostics.benchmark.value', { time: ms(benchmarkMs), estimate: ms(estimateLatencyMs(recommended, benchmarkMs)), model: recommended.name })
+    },
+    { label: t('diagnostics.latency'), value: latency(telemetry.getLatency('classify')) },
+    ...(detectLatency ? [{ label: t('diagnostics.latency.detect'), value: latency(detectLatency) }] : []),
+    {
+      label: t('diagnostics.memory'),
+      value: memory
+        ? t('diagnostics.memory.value', { tensors: number(memory.numTensors), size: mb(memory.numBytes) })
+          + (memory.numBytesInGPU !== undefined ? ` · ${t('diagnostics.memory.gpu', { size: mb(memory.numBytesInGPU) })}` : '')
+          + (memory.unreliable ? ` (${t('diagnostics.memory.unreliable')})` : '')
+        : t('diagnostics.none')
+    }
+  ];
+
+  return (
+    <div className="px-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600 transition-colors"
+      >
+        {t(isOpen ? 'diagnostics.hide' : 'diagnostics.show')}
+      </button>
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <label className="block space-y-1">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('diagnostics.profile')}</span>
+            <select
+              value={override?.id ?? AUTO}
+              onChange={e => handleProfileChange(e.target.value)}
+              disabled={isSwitching}
+              className="w-full bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400 disabled:opacity-50"
+            >
+              <option value={AUTO}>{t('diagnostics.profile.auto', { model: recommended.name })}</option>
+              {modelProfiles.getProfiles().map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {t('diagnostics.profile.option', { model: profile.name, size: number(profile.sizeMb) })}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isSwitching && <p className="text-[11px] text-slate-500 font-medium" role="status">{t('diagnostics.switching')}</p>}
+          {error && <p className="text-[11px] text-rose-500 font-medium" role="alert">{error}</p>}
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-[11px]">
+            {rows.map(row => (
+              <React.Fragment key={row.label}>
+                <dt className="font-black text-slate-400 uppercase tracking-widest text-[9px] pt-0.5">{row.label}</dt>
+                <dd className="font-bold text-slate-600">{row.value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <p className="text-[10px] text-slate-400 leading-relaxed">{t('diagnostics.privacy')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
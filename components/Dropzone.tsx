@@ -1,17 +1,54 @@
 
 import React, { useState } from 'react';
+import { useI18n } from './useI18n';
 
 interface DropzoneProps {
   onFileSelect: (file: File) => void;
+  // Called instead of onFileSelect when more than one image is chosen
+  onFilesSelect?: (files: File[]) => void;
   disabled?: boolean;
 }
 
-const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, disabled }) => {
+const isImage = (file: File) => file.type.startsWith('image/');
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty list
+    for (;;) {
+      const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (chunk.length === 0) break;
+      children.push(...chunk);
+    }
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, onFilesSelect, disabled }) => {
+  const { t } = useI18n();
   const [isDragging, setIsDragging] = useState(false);
 
+  const emit = (files: File[]) => {
+    const images = files.filter(isImage);
+    if (images.length === 0) return;
+    if (images.length > 1 && onFilesSelect) {
+      onFilesSelect(images);
+    } else {
+      onFileSelect(images[0]);
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) onFileSelect(file);
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    emit(files);
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -23,13 +60,22 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, disabled }) => {
     setIsDragging(false);
   };
 
-  const onDrop = (e: React.DragEvent) => {
+  const onDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled) return;
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      onFileSelect(file);
+
+    // Entries must be collected synchronously; the DataTransfer is cleared after this tick
+    const items: DataTransferItem[] = Array.from(e.dataTransfer.items);
+    const entries = items
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length > 0 && onFilesSelect) {
+      const files = await Promise.all(entries.map(readEntry));
+      emit(files.flat());
+    } else {
+      emit(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -49,24 +95,41 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, disabled }) => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"></path>
             </svg>
           </div>
-          <h3 className="text-lg font-bold text-slate-800 mb-1">Upload Waste Photo</h3>
-          <p className="text-sm text-slate-500 max-w-[200px]">Drag your image here or click to browse files</p>
+          <h3 className="text-lg font-bold text-slate-800 mb-1">{t('dropzone.title')}</h3>
+          <p className="text-sm text-slate-500 max-w-[220px]">
+            {t('dropzone.hint')}
+          </p>
         </div>
         <input 
           type="file" 
-          className="hidden" 
+          className="sr-only" 
           accept="image/*" 
+          multiple={!!onFilesSelect}
           onChange={handleChange} 
           disabled={disabled}
         />
         {isDragging && (
           <div className="absolute inset-0 bg-emerald-500/5 backdrop-blur-[1px] flex items-center justify-center">
             <div className="bg-emerald-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg animate-bounce">
-              Drop it!
+              {t('dropzone.drop')}
             </div>
           </div>
         )}
       </label>
+      {onFilesSelect && (
+        <label className={`mt-3 block text-center text-[10px] font-black uppercase tracking-widest ${disabled ? 'text-slate-300 cursor-not-allowed' : 'text-slate-400 hover:text-emerald-600 cursor-pointer'}`}>
+          {t('dropzone.folder')}
+          <input
+            type="file"
+            className="sr-only"
+            // Non-standard attribute, supported by all major browsers for folder picking
+            {...{ webkitdirectory: '' }}
+            multiple
+            onChange={handleChange}
+            disabled={disabled}
+          />
+        </label>
+      )}
     </div>
   );
 };
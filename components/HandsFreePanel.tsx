@@ -0,0 +1,56 @@
+import React from 'react';
+import { speech } from '../services/speech';
+import { HandsFreeState } from './useHandsFree';
+import { useI18n } from './useI18n';
+
+interface HandsFreePanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  state: HandsFreeState;
+}
+
+/** Turns hands-free mode on and off and shows what the microphone last picked up. */
+const HandsFreePanel: React.FC<HandsFreePanelProps> = ({ enabled, onToggle, state }) => {
+  const { t } = useI18n();
+  const canSpeak = speech.canSpeak();
+  const canListen = speech.canListen();
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <button
+        onClick={() => onToggle(!enabled)}
+        aria-pressed={enabled}
+        disabled={!canSpeak && !canListen}
+        title={t('handsFree.title')}
+        className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed ${enabled ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-emerald-600 hover:border-emerald-400'}`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 2a3 3 0 013 3v6a3 3 0 01-6 0V5a3 3 0 013-3zM19 11a7 7 0 01-14 0M12 18v4M8 22h8" />
+        </svg>
+        {t(enabled ? 'handsFree.on' : 'handsFree.off')}
+      </button>
+
+      {enabled && (
+        <div className="text-center space-y-1">
+          {state.error ? (
+            <p className="text-[11px] text-rose-500 font-medium" role="alert">{state.error}</p>
+          ) : canListen ? (
+            <>
+              <p className="flex items-center justify-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {state.listening && <span className="w-2 h-2 bg-rose-500 rounded-full animate-pulse" aria-hidden="true"></span>}
+                {t(state.listening ? 'handsFree.listening' : 'handsFree.paused')}
+              </p>
+              <p className="text-[10px] text-slate-400 max-w-xs">{t('handsFree.hint')}</p>
+              {state.heard && <p className="text-[11px] text-slate-600 italic">{t('handsFree.heard', { transcript: state.heard })}</p>}
+            </>
+          ) : (
+            <p className="text-[10px] text-slate-400 max-w-xs">{t('handsFree.noRecognition')}</p>
+          )}
+          {!canSpeak && <p className="text-[10px] text-slate-400 max-w-xs">{t('handsFree.noSynthesis')}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HandsFreePanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { HazardFlag } from '../types';
+import { useI18n } from './useI18n';
+
+interface HazardBannerProps {
+  hazards: HazardFlag[];
+}
+
+const HazardBanner: React.FC<HazardBannerProps> = ({ hazards }) => {
+  const { t, hazard: describe } = useI18n();
+  if (hazards.length === 0) return null;
+
+  return (
+    <div role="alert" className="flex gap-4 p-5 mb-8 rounded-[2rem] bg-rose-600 text-white shadow-lg shadow-rose-200">
+      <svg className="w-8 h-8 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>
+      <div className="space-y-2">
+        <h4 className="text-[11px] font-black uppercase tracking-widest">
+          {t('hazard.title', { names: hazards.map(hazard => describe(hazard).title).join(' · ') })}
+        </h4>
+        {hazards.map(hazard => (
+          <p key={hazard} className="text-xs font-semibold leading-relaxed text-rose-50">{describe(hazard).message}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HazardBanner;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { scanHistory } from '../services/scanHistory';
+import { ScanRecord, WasteCategory } from '../types';
+import { getCategoryStyles } from './categoryStyles';
+import CategoryIcon from './CategoryIcon';
+import StatsPanel from './StatsPanel';
+import ImpactPanel from './ImpactPanel';
+import CorrectionsManager from './CorrectionsManager';
+import { useI18n } from './useI18n';
+
+// <input type="date"> values are local calendar days
+const parseDay = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+const HistoryView: React.FC = () => {
+  const { t, category: categoryName, percent, locale } = useI18n();
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [category, setCategory] = useState<WasteCategory | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      scanHistory
+        .list({ category: category || undefined, from: parseDay(from, false), to: parseDay(to, true) })
+        .then(list => { setScans(list); setError(null); })
+        .catch((err: Error) => setError(err.message || t('history.error')));
+    load();
+    return scanHistory.subscribe(load);
+  }, [category, from, to, t]);
+
+  const handleClear = () => {
+    if (window.confirm(t('history.confirmClear'))) {
+      scanHistory.clear();
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-10 items-start">
+      <section className="space-y-6">
+        <div className="bg-white/80 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50 space-y-4">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('history.filter')}</h3>
+          <select
+            value={category}
+            onChange={e => setCategory(e.target.value as WasteCategory | '')}
+            className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400"
+          >
+            <option value="">{t('history.allCategories')}</option>
+            {Object.values(WasteCategory).map(c => (
+              <option key={c} value={c}>{categoryName(c)}</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            <input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label={t('history.from')} className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700" />
+            <input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label={t('history.to')} className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700" />
+          </div>
+          <button onClick={handleClear} className="w-full px-4 py-2.5 rounded-xl border border-rose-100 text-[10px] font-black text-rose-500 uppercase tracking-widest hover:bg-rose-50 transition-colors">
+            {t('history.clear')}
+          </button>
+        </div>
+        <ImpactPanel />
+        <StatsPanel />
+        <CorrectionsManager />
+      </section>
+
+      <section className="space-y-3">
+        {error && <p className="text-xs text-rose-500 font-medium">{error}</p>}
+        {scans.length === 0 && !error ? (
+          <div className="min-h-[300px] border-2 border-dashed border-slate-200 rounded-[3rem] flex items-center justify-center text-center p-12 opacity-40">
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest">{t('history.empty')}</h3>
+          </div>
+        ) : (
+          scans.map(scan => (
+            <div key={scan.id} className="bg-white/90 p-3 rounded-[1.5rem] shadow-sm border border-slate-100 flex items-center gap-4">
+              <img src={scan.thumbnail} alt={scan.result.label} className="w-16 h-16 rounded-xl object-cover bg-slate-100" />
+              <div className="flex-1 min-w-0">
+                <span className={`inline-flex items-center gap-1 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${getCategoryStyles(scan.result.category, scan.result.path).light} ${getCategoryStyles(scan.result.category, scan.result.path).text}`}>
+                  <CategoryIcon category={scan.result.category} className="w-3 h-3" />
+                  {categoryName(scan.result.category)}
+                </span>
+                <p className="text-sm font-bold text-slate-800 truncate pt-1">{scan.result.label}</p>
+                <p className="text-[10px] text-slate-400 font-medium">
+                  {new Date(scan.timestamp).toLocaleString(locale)} · {t(scan.source === 'live' ? 'app.mode.live' : 'app.mode.upload')} · {percent(scan.result.confidence)}
+                </p>
+              </div>
+              <button
+                onClick={() => scanHistory.remove(scan.id)}
+                className="p-2 text-slate-300 hover:text-rose-500 transition-colors"
+                aria-label={t('history.delete')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+              </button>
+            </div>
+          ))
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default HistoryView;
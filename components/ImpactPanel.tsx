@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ImpactSummary } from '../types';
+import { IMPACT_TABLE } from '../constants';
+import { impactLedger } from '../services/impactLedger';
+import { downloadFile } from './download';
+import { formatCo2e, formatEnergy, formatMass, formatMilestone } from './impactFormat';
+import { useI18n } from './useI18n';
+
+const ImpactPanel: React.FC = () => {
+  const translator = useI18n();
+  const { t, number } = translator;
+  const [summary, setSummary] = useState<ImpactSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      impactLedger.getSummary()
+        .then(next => { setSummary(next); setError(null); })
+        .catch((err: Error) => setError(err.message || 'Could not read your eco-score.'));
+    load();
+    return impactLedger.subscribe(load);
+  }, []);
+
+  const handleExport = async (kind: 'csv' | 'json') => {
+    try {
+      const day = new Date().toISOString().slice(0, 10);
+      if (kind === 'csv') {
+        downloadFile(`ecoclear-impact-${day}.csv`, await impactLedger.exportCsv(), 'text/csv');
+      } else {
+        downloadFile(`ecoclear-impact-${day}.json`, await impactLedger.exportReport());
+      }
+    } catch (err: any) {
+      setError(err.message || 'Could not export your eco-score.');
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t('impact.panel.confirmReset'))) {
+      impactLedger.clear().catch((err: Error) => setError(err.message));
+    }
+  };
+
+  const stats = summary ? [
+    { label: t('impact.panel.items'), value: number(summary.items) },
+    { label: t('impact.panel.co2e'), value: formatCo2e(translator, summary.totals.co2eKg) },
+    { label: t('impact.panel.energy'), value: formatEnergy(translator, summary.totals.energyKWh) },
+    { label: t('impact.panel.landfill'), value: formatMass(translator, summary.totals.landfillKg) }
+  ] : [];
+
+  return (
+    <div className="bg-white/90 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('impact.panel.title')}</h3>
+        {summary && summary.items > 0 && (
+          <div className="text-right">
+            <span className="text-3xl font-black text-emerald-600">{number(summary.currentStreak)}</span>
+            <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {t('impact.panel.streak')} · {t('impact.panel.longest', { count: number(summary.longestStreak) })}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-[11px] text-rose-500 font-medium">{error}</p>}
+
+      {summary && summary.items === 0 ? (
+        <p className="text-xs text-slate-500 leading-relaxed">{t('impact.panel.empty')}</p>
+      ) : summary && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-4 rounded-[1.5rem] bg-slate-50 border border-slate-100">
+                <span className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{stat.label}</span>
+                <span className="text-lg font-black text-slate-900">{stat.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {summary.milestones.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t('impact.panel.milestones')}</h4>
+              <div className="flex flex-wrap gap-2">
+                {summary.milestones.map(milestone => (
+                  <span key={`${milestone.kind}-${milestone.threshold}`} className="px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 text-[10px] font-black">
+                    {formatMilestone(translator, milestone)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleExport('csv')} className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors">
+              {t('impact.panel.exportCsv')}
+            </button>
+            <button onClick={() => handleExport('json')} className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 transition-colors">
+              {t('impact.panel.exportJson')}
+            </button>
+            <button onClick={handleReset} className="px-3 py-1.5 rounded-xl border border-rose-100 text-[10px] font-black text-rose-500 uppercase tracking-widest hover:bg-rose-50 transition-colors">
+              {t('impact.panel.reset')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {IMPACT_TABLE.source && (
+        <p className="text-[10px] text-slate-400 leading-relaxed">{t('impact.panel.source', { source: IMPACT_TABLE.source })}</p>
+      )}
+    </div>
+  );
+};
+
+export default ImpactPanel;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { i18n } from '../services/i18n';
+import { useI18n } from './useI18n';
+
+const LanguageSelector: React.FC = () => {
+  const { t, locale } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('app.language')}</span>
+      <select
+        value={locale}
+        onChange={e => i18n.setLocale(e.target.value)}
+        className="bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400"
+      >
+        {i18n.getLocales().map(option => (
+          <option key={option.code} value={option.code} lang={option.code}>{option.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSelector;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { LiveScanSettings } from '../types';
+import { useI18n } from './useI18n';
+
+interface LiveScanSettingsPanelProps {
+  settings: LiveScanSettings;
+  onChange: (settings: LiveScanSettings) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, display, onChange }) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-slate-600">{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-emerald-500"
+    />
+  </label>
+);
+
+const LiveScanSettingsPanel: React.FC<LiveScanSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t, percent, number } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const frames = (count: number) => t(count === 1 ? 'liveScan.frames.one' : 'liveScan.frames', { count: number(count) });
+  const update = (patch: Partial<LiveScanSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mt-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600 transition-colors"
+      >
+        {t(isOpen ? 'liveScan.hide' : 'liveScan.show')}
+      </button>
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={settings.adaptiveInterval}
+              onChange={e => update({ adaptiveInterval: e.target.checked })}
+              className="w-4 h-4 accent-emerald-500"
+            />
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('liveScan.adaptive')}</span>
+          </label>
+          {!settings.adaptiveInterval && (
+            <Slider label={t('liveScan.interval')} value={settings.intervalMs} min={200} max={3000} step={100} display={t('diagnostics.ms', { value: number(settings.intervalMs) })} onChange={intervalMs => update({ intervalMs })} />
+          )}
+          <Slider label={t('liveScan.window')} value={settings.windowSize} min={1} max={15} step={1} display={frames(settings.windowSize)} onChange={windowSize => update({ windowSize })} />
+          <Slider label={t('liveScan.stable')} value={settings.stableFrames} min={1} max={settings.windowSize} step={1} display={frames(settings.stableFrames)} onChange={stableFrames => update({ stableFrames })} />
+          <Slider label={t('liveScan.minConfidence')} value={settings.minConfidence} min={0} max={0.9} step={0.05} display={percent(settings.minConfidence)} onChange={minConfidence => update({ minConfidence })} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveScanSettingsPanel;
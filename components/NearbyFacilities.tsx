@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { NearbyFacility, WasteCategory } from '../types';
+import { facilityDirectory } from '../services/facilities';
+import { useI18n } from './useI18n';
+
+interface NearbyFacilitiesProps {
+  category: WasteCategory;
+}
+
+const mapLink = ({ lat, lon }: { lat: number; lon: number }) =>
+  `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=17/${lat}/${lon}`;
+
+const NearbyFacilities: React.FC<NearbyFacilitiesProps> = ({ category }) => {
+  const { t, number } = useI18n();
+  const [origin, setOrigin] = useState(() => facilityDirectory.getOrigin());
+  const [dataset, setDataset] = useState(() => facilityDirectory.getDataset());
+  const [isOpen, setIsOpen] = useState(() => facilityDirectory.getOrigin() !== null);
+  const [postcode, setPostcode] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(() => facilityDirectory.getLoadError());
+
+  useEffect(() => {
+    return facilityDirectory.subscribe(() => {
+      setOrigin(facilityDirectory.getOrigin());
+      setDataset(facilityDirectory.getDataset());
+    });
+  }, []);
+
+  const nearby: NearbyFacility[] = origin ? facilityDirectory.findNearby(category) : [];
+
+  const handleLocate = async () => {
+    setError(null);
+    setIsLocating(true);
+    try {
+      await facilityDirectory.locateDevice();
+    } catch (err: any) {
+      setError(err.message || t('facilities.error.unavailable'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handlePostcode = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    facilityDirectory.setPostcode(postcode);
+    setPostcode('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      facilityDirectory.importDataset(await file.text());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Drop-off data could not be loaded.');
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="mb-8 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600 transition-colors"
+      >
+        {t('facilities.open')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-8 space-y-3">
+      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('facilities.title')}</h4>
+
+      {origin ? (
+        <div className="flex items-center justify-between gap-3 text-[11px] text-slate-500">
+          <span>
+            {origin.kind === 'device' ? t('facilities.fromDevice') : t('facilities.fromPostcode', { postcode: origin.postcode })}
+          </span>
+          <button
+            onClick={() => facilityDirectory.clearOrigin()}
+            className="text-[10px] font-black uppercase tracking-widest hover:text-emerald-600 transition-colors"
+          >
+            {t('facilities.change')}
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={handleLocate}
+            disabled={isLocating}
+            className="px-3 py-1.5 rounded-xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+          >
+            {isLocating ? t('facilities.locating') : t('facilities.useLocation')}
+          </button>
+          <form onSubmit={handlePostcode} className="flex items-center gap-2">
+            <input
+              value={postcode}
+              onChange={e => setPostcode(e.target.value)}
+              placeholder={t('facilities.postcode')}
+              aria-label={t('facilities.postcode')}
+              className="w-28 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400"
+            />
+            <button
+              type="submit"
+              disabled={!postcode.trim()}
+              className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-400 disabled:opacity-50 transition-colors"
+            >
+              {t('facilities.search')}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {origin && (nearby.length > 0 ? (
+        <ul className="space-y-2">
+          {nearby.map(({ facility, distanceKm }) => (
+            <li key={facility.id} className="p-4 rounded-[1.5rem] bg-slate-50 border border-slate-100">
+              <div className="flex items-start justify-between gap-3">
+                <span className="text-sm font-bold text-slate-800">{facility.name}</span>
+                {distanceKm !== undefined && (
+                  <span className="shrink-0 text-[11px] font-black text-emerald-600">
+                    {number(distanceKm, { style: 'unit', unit: 'kilometer', maximumFractionDigits: 1 })}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-slate-600">{facility.address}</p>
+              {facility.hours && <p className="text-[11px] text-slate-500 mt-1">{facility.hours}</p>}
+              <div className="flex gap-3 mt-2">
+                <a
+                  href={mapLink(facility.location)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600"
+                >
+                  {t('facilities.map')}
+                </a>
+                {facility.website && (
+                  <a
+                    href={facility.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600"
+                  >
+                    {t('facilities.website')}
+                  </a>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500">{t('facilities.none')}</p>
+      ))}
+
+      {origin?.kind === 'postcode' && !origin.point && nearby.length > 0 && (
+        <p className="text-[11px] text-slate-400">{t('facilities.noDistance')}</p>
+      )}
+
+      {error && <p className="text-[11px] text-rose-500 font-medium">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-400">
+        <span>{t('facilities.source', { name: dataset.name })}</span>
+        <label className="font-black uppercase tracking-widest cursor-pointer hover:text-emerald-600 transition-colors">
+          {t('facilities.import')}
+          <input type="file" accept="application/geo+json,application/json,.geojson,.json" className="sr-only" onChange={handleImport} />
+        </label>
+        {facilityDirectory.isCustom() && (
+          <button
+            onClick={() => facilityDirectory.resetDataset()}
+            className="font-black uppercase tracking-widest hover:text-emerald-600 transition-colors"
+          >
+            {t('facilities.useSample')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NearbyFacilities;
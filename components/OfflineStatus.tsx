@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { modelStore } from '../services/modelStore';
+import { modelProfiles } from '../services/modelProfiles';
+import { useI18n } from './useI18n';
+
+const isProfileCached = () => modelStore.isCached(modelProfiles.getActive().storeKey);
+
+// Network state plus whether the on-device model can load without it
+const OfflineStatus: React.FC = () => {
+  const { t } = useI18n();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isCached, setIsCached] = useState(isProfileCached);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const refresh = () => setIsCached(isProfileCached());
+    const unsubscribeStore = modelStore.subscribe(refresh);
+    const unsubscribeProfiles = modelProfiles.subscribe(refresh);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribeStore();
+      unsubscribeProfiles();
+    };
+  }, []);
+
+  return (
+    <div
+      className="flex items-center gap-2"
+      title={t(isCached ? 'offline.cached' : 'offline.notCached')}
+    >
+      <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
+      <span className={`text-[10px] font-bold uppercase tracking-widest ${isOnline ? 'text-slate-400' : 'text-amber-500'}`}>
+        {t(isOnline ? 'offline.online' : 'offline.offline')}{isCached ? ` · ${t('offline.ready')}` : ''}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineStatus;
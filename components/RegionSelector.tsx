@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { rulePackManager } from '../services/rulePacks';
+import { RulePack } from '../types';
+import { useI18n } from './useI18n';
+
+interface RegionSelectorProps {
+  onChange: (pack: RulePack) => void;
+}
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ onChange }) => {
+  const { t } = useI18n();
+  const [packs, setPacks] = useState<RulePack[]>(() => rulePackManager.getAvailablePacks());
+  const [activeId, setActiveId] = useState<string>(() => rulePackManager.getActivePack().id);
+  const [error, setError] = useState<string | null>(() => rulePackManager.getLoadErrors()[0] ?? null);
+
+  useEffect(() => {
+    return rulePackManager.subscribe(pack => {
+      setPacks(rulePackManager.getAvailablePacks());
+      setActiveId(pack.id);
+      onChange(pack);
+    });
+  }, [onChange]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setError(null);
+    rulePackManager.setActivePack(e.target.value);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      rulePackManager.importPack(await file.text());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('region.error.import'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('region.label')}</span>
+        <select
+          value={activeId}
+          onChange={handleSelect}
+          className="bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-emerald-400"
+        >
+          {packs.map(pack => (
+            <option key={pack.id} value={pack.id}>{pack.name} · v{pack.version}</option>
+          ))}
+        </select>
+        <label className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer hover:text-emerald-600 hover:border-emerald-400 transition-colors">
+          {t('region.import')}
+          <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+        </label>
+      </div>
+      {error && (
+        <p className="text-[11px] text-rose-500 font-medium max-w-md">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default RegionSelector;
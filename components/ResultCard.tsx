@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { ClassificationResult, WasteCategory } from '../types';
+import { rulePackManager } from '../services/rulePacks';
+import { taxonomy } from '../services/taxonomy';
+import { getCategoryStyles } from './categoryStyles';
+import CategoryIcon from './CategoryIcon';
+import HazardBanner from './HazardBanner';
+import NearbyFacilities from './NearbyFacilities';
+import SortingImpact from './SortingImpact';
+import { useI18n } from './useI18n';
+
+interface ResultCardProps {
+  result: ClassificationResult;
+  // Position of the item in a multi-object scan, matching its box label
+  index?: number;
+  onCorrect?: (category: WasteCategory) => void;
+  // Switches between the item's clean and contaminated instructions
+  onContaminatedChange?: (contaminated: boolean) => void;
+}
+
+const ResultCard: React.FC<ResultCardProps> = ({ result, index, onCorrect, onContaminatedChange }) => {
+  const { t, category: categoryName, percent } = useI18n();
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const styles = getCategoryStyles(result.category, result.path);
+  const leaf = result.path?.length ? taxonomy.getNode(result.path[result.path.length - 1].id) : undefined;
+
+  const handleCorrect = (category: WasteCategory) => {
+    setIsCorrecting(false);
+    onCorrect?.(category);
+  };
+
+  return (
+    <div className="bg-white/90 glass-effect p-8 rounded-[3rem] shadow-2xl border border-white/50 animate-in zoom-in-95 duration-500">
+      <HazardBanner hazards={result.hazards ?? []} />
+      <div className="flex items-start justify-between mb-8">
+        <div className="space-y-1">
+          {index !== undefined && (
+            <span className="inline-flex items-center justify-center w-6 h-6 mr-2 rounded-full text-[10px] font-black text-white" style={{ backgroundColor: styles.hex }}>
+              {index + 1}
+            </span>
+          )}
+          {result.uncertain ? (
+            <span className="text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-amber-100 text-amber-700">
+              {t('result.uncertain')}
+            </span>
+          ) : (
+            <span className={`inline-flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${styles.light} ${styles.text}`}>
+              <CategoryIcon category={result.category} className="w-3.5 h-3.5" />
+              {categoryName(result.category)}
+            </span>
+          )}
+          <h2 className="text-4xl font-black text-slate-900 tracking-tight pt-2">
+            {result.label}
+          </h2>
+          {result.path && result.path.length > 1 && (
+            <p className="text-[11px] font-bold text-slate-400">
+              {result.path.map(step => step.name).join(' › ')}
+            </p>
+          )}
+          {result.material && (
+            <span className={`inline-block mt-2 text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${result.material.accepted ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
+              {result.material.abbreviation} #{result.material.resinCode} – {t(result.material.accepted ? 'result.resin.accepted' : 'result.resin.notAccepted')}
+            </span>
+          )}
+        </div>
+        <div className="text-right">
+           <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">{t('result.confidence')}</span>
+           <span className={`text-xl font-black ${result.uncertain ? 'text-slate-300' : styles.text}`}>{percent(result.confidence)}</span>
+        </div>
+      </div>
+
+      {result.uncertain ? (
+        <div className="mb-8 space-y-3">
+          <h4 className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{t('result.uncertain.title')}</h4>
+          {result.uncertain.map(candidate => {
+            const candidateStyles = getCategoryStyles(candidate.category);
+            return (
+              <div key={candidate.category} className={`p-5 rounded-[1.5rem] border ${candidateStyles.border} ${candidateStyles.light}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`inline-flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest ${candidateStyles.text}`}>
+                    <CategoryIcon category={candidate.category} className="w-3.5 h-3.5" />
+                    {categoryName(candidate.category)} · {percent(candidate.score)}
+                  </span>
+                  {candidate.binColor && (
+                    <span className="w-4 h-4 rounded-md border border-black/10" style={{ backgroundColor: candidate.binColor }} title={t('result.binColour')} role="img" aria-label={t('result.binColour')}></span>
+                  )}
+                </div>
+                <p className="text-slate-700 font-semibold leading-relaxed text-xs">{candidate.disposalInstructions}</p>
+                {onCorrect && (
+                  <button
+                    onClick={() => onCorrect(candidate.category)}
+                    className={`mt-3 text-[10px] font-black uppercase tracking-widest ${candidateStyles.text} hover:underline`}
+                  >
+                    {t('result.uncertain.pick')}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className={`p-6 rounded-[2rem] border ${styles.border} ${styles.light} mb-8`}>
+          <h4 className={`text-[10px] font-black uppercase tracking-widest mb-3 opacity-60 ${styles.text}`}>{t('result.disposal')}</h4>
+          <p className="text-slate-800 font-semibold leading-relaxed text-sm">
+            {result.disposalInstructions}
+          </p>
+          {leaf?.contaminated && onContaminatedChange && (
+            <button
+              onClick={() => onContaminatedChange(!result.contaminated)}
+              className={`mt-3 text-[10px] font-black uppercase tracking-widest ${styles.text} hover:underline`}
+            >
+              {t(result.contaminated ? 'result.clean' : 'result.soiled')}
+            </button>
+          )}
+          {result.dropOffNotes && (
+            <p className="text-slate-600 leading-relaxed text-xs mt-3">
+              {result.dropOffNotes}
+            </p>
+          )}
+          {result.binColor && (
+            <div className="flex items-center gap-2 mt-4">
+              <span className="w-4 h-4 rounded-md border border-black/10" style={{ backgroundColor: result.binColor }}></span>
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t('result.binColour')}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!result.uncertain && <SortingImpact result={result} />}
+
+      {!result.uncertain && result.category !== WasteCategory.UNKNOWN && (
+        <NearbyFacilities category={result.category} />
+      )}
+
+      {result.alternatives.length > 0 && !result.uncertain && (
+        <div className="mb-8 space-y-3">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('result.runnersUp')}</h4>
+          {result.alternatives.map(alt => (
+            <div key={alt.category} className="flex items-center gap-3">
+              <span className={`w-28 flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest ${getCategoryStyles(alt.category).text}`}>
+                <CategoryIcon category={alt.category} className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">{categoryName(alt.category)}</span>
+              </span>
+              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${getCategoryStyles(alt.category).bg}`} style={{ width: `${Math.round(alt.score * 100)}%` }}></div>
+              </div>
+              <span className="w-10 text-right text-[11px] font-bold text-slate-500">{percent(alt.score)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4 text-[11px] text-slate-500 bg-slate-50 p-6 rounded-[2rem] border border-slate-100">
+        <div className="flex justify-between items-center border-b border-slate-200/50 pb-2">
+          <span className="font-bold uppercase tracking-widest opacity-40">{t('result.reasoning')}</span>
+        </div>
+        <p className="italic leading-relaxed">
+          "{result.reasoning}"
+        </p>
+        {result.evidence && result.evidence.length > 1 && (
+          <ul className="space-y-1 pt-2 border-t border-slate-200/50">
+            {result.evidence.map((item, i) => (
+              <li key={i} className={`flex gap-2 ${item.source === result.decidedBy ? 'text-slate-800 font-bold' : ''}`}>
+                <span className="w-20 shrink-0 font-black uppercase tracking-widest text-[9px] pt-0.5">{t(`evidence.${item.source}`)}</span>
+                <span>{item.value} · {item.detail}{item.source === result.decidedBy ? ` (${t('result.decided')})` : ''}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {onCorrect && (
+        <div className="mt-6">
+          {isCorrecting ? (
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('result.correct.title')}</h4>
+              <div className="flex flex-wrap gap-2">
+                {rulePackManager.getActivePack().categories
+                  .filter(c => c.category !== result.category)
+                  .map(({ category }) => (
+                    <button
+                      key={category}
+                      onClick={() => handleCorrect(category)}
+                      className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${getCategoryStyles(category).border} ${getCategoryStyles(category).light} ${getCategoryStyles(category).text} hover:scale-105 transition-transform inline-flex items-center gap-1.5`}
+                    >
+                      <CategoryIcon category={category} className="w-3.5 h-3.5" />
+                      {categoryName(category)}
+                    </button>
+                  ))}
+                <button onClick={() => setIsCorrecting(false)} className="px-3 py-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-600">
+                  {t('result.cancel')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setIsCorrecting(true)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-emerald-600 transition-colors">
+              {t('result.correct')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultCard;
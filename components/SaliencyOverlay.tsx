@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { SaliencyMap } from '../types';
+
+interface SaliencyOverlayProps {
+  saliency: SaliencyMap;
+  // Intrinsic size of the image/video the map's box was measured against
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/** One pixel per grid cell, blue (ignored) to red (decisive); the browser smooths it when scaled up. */
+const renderHeatmap = ({ columns, rows, values }: SaliencyMap): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  const ctx = canvas.getContext('2d')!;
+  values.forEach((value, i) => {
+    ctx.fillStyle = `hsla(${Math.round((1 - value) * 240)}, 100%, 50%, ${(0.1 + value * 0.6).toFixed(2)})`;
+    ctx.fillRect(i % columns, Math.floor(i / columns), 1, 1);
+  });
+  return canvas.toDataURL();
+};
+
+/**
+ * Draws a saliency map over an image or video, using the same source-pixel
+ * viewBox and `slice` scaling as the detection overlay.
+ */
+const SaliencyOverlay: React.FC<SaliencyOverlayProps> = ({ saliency, sourceWidth, sourceHeight }) => {
+  const href = useMemo(() => renderHeatmap(saliency), [saliency]);
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const { x, y, width, height } = saliency.box ?? { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${sourceWidth} ${sourceHeight}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      <image href={href} x={x} y={y} width={width} height={height} preserveAspectRatio="none" />
+    </svg>
+  );
+};
+
+export default SaliencyOverlay;
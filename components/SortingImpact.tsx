@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { ClassificationResult, Milestone } from '../types';
+import { impactLedger } from '../services/impactLedger';
+import { formatCo2e, formatEnergy, formatMass, formatMilestone } from './impactFormat';
+import { useI18n } from './useI18n';
+
+interface SortingImpactProps {
+  result: ClassificationResult;
+}
+
+/** The result's estimated savings, and a button to credit them to the user's eco-score. */
+const SortingImpact: React.FC<SortingImpactProps> = ({ result }) => {
+  const translator = useI18n();
+  const { t } = translator;
+  const [recorded, setRecorded] = useState<Milestone[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live Scan replaces the result every frame, so only a different item can be credited again
+  useEffect(() => {
+    setRecorded(null);
+    setError(null);
+  }, [result.category, result.label]);
+
+  if (!result.impact) return null;
+  const { co2eKg, energyKWh, landfillKg } = result.impact;
+
+  const handleRecord = async () => {
+    setIsSaving(true);
+    try {
+      setRecorded(await impactLedger.record(result));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not save to your eco-score.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-5 rounded-[1.5rem] bg-emerald-50/60 border border-emerald-100">
+      <h4 className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-2">{t('impact.title')}</h4>
+      <p className="text-xs text-slate-700 leading-relaxed">
+        {t('impact.estimate', {
+          co2e: formatCo2e(translator, co2eKg),
+          energy: formatEnergy(translator, energyKWh),
+          mass: formatMass(translator, landfillKg)
+        })}
+      </p>
+      {recorded ? (
+        <div className="mt-3 space-y-1">
+          <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{t('impact.recorded')}</p>
+          {recorded.map(milestone => (
+            <p key={`${milestone.kind}-${milestone.threshold}`} className="text-xs font-bold text-emerald-700">
+              {formatMilestone(translator, milestone)}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <button
+          onClick={handleRecord}
+          disabled={isSaving}
+          className="mt-3 px-3 py-1.5 rounded-xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+        >
+          {t('impact.record')}
+        </button>
+      )}
+      {error && <p className="text-[11px] text-rose-500 font-medium mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SortingImpact;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { scanHistory } from '../services/scanHistory';
+import { WasteCategory } from '../types';
+import { getCategoryStyles } from './categoryStyles';
+import CategoryIcon from './CategoryIcon';
+import { useI18n } from './useI18n';
+
+type Period = 'week' | 'month';
+
+const PERIOD_DAYS: Record<Period, number> = { week: 7, month: 30 };
+
+const StatsPanel: React.FC = () => {
+  const { t, category: categoryName, number } = useI18n();
+  const [period, setPeriod] = useState<Period>('week');
+  const [counts, setCounts] = useState<Record<WasteCategory, number> | null>(null);
+
+  useEffect(() => {
+    const load = () => scanHistory.getCategoryCounts(PERIOD_DAYS[period]).then(setCounts).catch(() => setCounts(null));
+    load();
+    return scanHistory.subscribe(load);
+  }, [period]);
+
+  const values = counts ? Object.values(WasteCategory).map(category => counts[category]) : [];
+  const total = values.reduce((sum, n) => sum + n, 0);
+  const max = Math.max(1, ...values);
+
+  return (
+    <div className="bg-white/90 glass-effect p-8 rounded-[2.5rem] shadow-xl border border-white/50">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t(`stats.${period}`)}</h3>
+          <span className="text-3xl font-black text-slate-900">{number(total)}</span>
+        </div>
+        <div className="bg-slate-100 p-1 rounded-xl flex">
+          {(['week', 'month'] as Period[]).map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${period === p ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              {t(`stats.period.${p}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {Object.values(WasteCategory).map(category => {
+          const count = counts?.[category] ?? 0;
+          return (
+            <div key={category} className="flex items-center gap-3">
+              <span className={`w-24 flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest ${getCategoryStyles(category).text}`}>
+                <CategoryIcon category={category} className="w-3.5 h-3.5 shrink-0" />
+                {categoryName(category)}
+              </span>
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full transition-all duration-500 ${getCategoryStyles(category).bg}`} style={{ width: `${(count / max) * 100}%` }}></div>
+              </div>
+              <span className="w-8 text-right text-[11px] font-bold text-slate-500">{number(count)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { wasteClassifier } from '../services/wasteClassifier';
+import { useI18n } from './useI18n';
+
+/** Sets the confidence below which a result is shown as "uncertain" instead of as an answer. */
+const UncertaintyThreshold: React.FC = () => {
+  const { t, percent } = useI18n();
+  const [threshold, setThreshold] = useState(() => wasteClassifier.getAbstainThreshold());
+
+  const handleChange = (value: number) => {
+    setThreshold(value);
+    wasteClassifier.setAbstainThreshold(value);
+  };
+
+  return (
+    <label className="flex items-center gap-3" title={t('app.unsureBelow.title')}>
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('app.unsureBelow')}</span>
+      <input
+        type="range"
+        min={0}
+        max={0.9}
+        step={0.05}
+        value={threshold}
+        onChange={e => handleChange(Number(e.target.value))}
+        className="w-32 accent-emerald-500"
+      />
+      <span className="w-10 text-[10px] font-black text-slate-600">{percent(threshold)}</span>
+    </label>
+  );
+};
+
+export default UncertaintyThreshold;
@@ -0,0 +1,28 @@
+import { TaxonomyRef, WasteCategory } from '../types';
+import { taxonomy } from '../services/taxonomy';
+
+export interface CategoryStyles {
+  bg: string;
+  text: string;
+  light: string;
+  border: string;
+  // Raw colour for canvas/SVG drawing where Tailwind classes don't apply
+  hex: string;
+}
+
+// Full class names so Tailwind can see them; taxonomy nodes refer to these palettes by name
+const PALETTES: Record<string, CategoryStyles> = {
+  green: { bg: 'bg-green-500', text: 'text-green-600', light: 'bg-green-50', border: 'border-green-200', hex: '#22c55e' },
+  amber: { bg: 'bg-amber-500', text: 'text-amber-600', light: 'bg-amber-50', border: 'border-amber-200', hex: '#f59e0b' },
+  sky: { bg: 'bg-sky-500', text: 'text-sky-600', light: 'bg-sky-50', border: 'border-sky-200', hex: '#0ea5e9' },
+  zinc: { bg: 'bg-zinc-500', text: 'text-zinc-600', light: 'bg-zinc-50', border: 'border-zinc-200', hex: '#71717a' },
+  emerald: { bg: 'bg-emerald-500', text: 'text-emerald-600', light: 'bg-emerald-50', border: 'border-emerald-200', hex: '#10b981' },
+  indigo: { bg: 'bg-indigo-500', text: 'text-indigo-600', light: 'bg-indigo-50', border: 'border-indigo-200', hex: '#6366f1' },
+  rose: { bg: 'bg-rose-500', text: 'text-rose-600', light: 'bg-rose-50', border: 'border-rose-200', hex: '#f43f5e' }
+};
+
+/** Styles for a category, or for the most specific taxonomy node on a result's path. */
+export const getCategoryStyles = (category: WasteCategory, path?: TaxonomyRef[]): CategoryStyles => {
+  const color = taxonomy.getColor(category, path);
+  return (color && PALETTES[color]) || PALETTES.rose;
+};
@@ -0,0 +1,9 @@
+/** Saves text as a file via a temporary object URL; nothing is uploaded. */
+export const downloadFile = (filename: string, contents: string, type: string = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,21 @@
+import { Milestone } from '../types';
+import { Translator } from '../services/translator';
+
+const digits = (value: number) => ({ maximumFractionDigits: value < 1 ? 2 : 1 });
+
+export const formatCo2e = ({ t, number }: Translator, kg: number) =>
+  t('impact.unit.co2e', { value: number(kg, digits(kg)) });
+
+export const formatEnergy = ({ t, number }: Translator, kWh: number) =>
+  t('impact.unit.energy', { value: number(kWh, digits(kWh)) });
+
+// Small items read better in grams
+export const formatMass = ({ number }: Translator, kg: number) =>
+  kg < 1
+    ? number(kg * 1000, { style: 'unit', unit: 'gram', maximumFractionDigits: 0 })
+    : number(kg, { style: 'unit', unit: 'kilogram', maximumFractionDigits: 1 });
+
+export const formatMilestone = (translator: Translator, { kind, threshold }: Milestone) =>
+  kind === 'items'
+    ? translator.t('impact.milestone.items', { count: translator.number(threshold) })
+    : translator.t('impact.milestone.co2e', { value: formatCo2e(translator, threshold) });
@@ -0,0 +1,12 @@
+/**
+ * Converts a pointer position over `object-cover` media into source pixels.
+ * The result is unclamped; points outside the visible crop fall outside
+ * 0..sourceWidth / 0..sourceHeight.
+ */
+export const toSourcePoint = (rect: DOMRect, sourceWidth: number, sourceHeight: number, clientX: number, clientY: number) => {
+  const scale = Math.max(rect.width / sourceWidth, rect.height / sourceHeight);
+  return {
+    x: (clientX - rect.left - (rect.width - sourceWidth * scale) / 2) / scale,
+    y: (clientY - rect.top - (rect.height - sourceHeight * scale) / 2) / scale
+  };
+};
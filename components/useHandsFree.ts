@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { parseVoiceCommand, VoiceCommand } from '../services/handsFree';
+import { speech } from '../services/speech';
+import { i18n } from '../services/i18n';
+
+export interface HandsFreeState {
+  listening: boolean;
+  // Last thing recognised, shown so the user can tell a misheard command from an ignored one
+  heard: string | null;
+  error: string | null;
+}
+
+/** Listens for voice commands while `enabled`; the latest `onCommand` is always the one called. */
+export const useHandsFree = (enabled: boolean, onCommand: (command: VoiceCommand) => void): HandsFreeState => {
+  const [state, setState] = useState<HandsFreeState>({ listening: false, heard: null, error: null });
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (!enabled) {
+      speech.cancel();
+      return;
+    }
+    if (!speech.canListen()) {
+      setState({ listening: false, heard: null, error: null });
+      return;
+    }
+
+    try {
+      speech.listen(
+        transcript => {
+          const command = parseVoiceCommand(transcript, i18n.getTranslator());
+          setState(current => ({ ...current, heard: transcript }));
+          if (command) onCommandRef.current(command);
+        },
+        err => setState({ listening: false, heard: null, error: err.message })
+      );
+      setState({ listening: true, heard: null, error: null });
+    } catch (err: any) {
+      setState({ listening: false, heard: null, error: err.message });
+    }
+
+    return () => {
+      speech.stopListening();
+      speech.cancel();
+      setState(current => ({ ...current, listening: false }));
+    };
+  }, [enabled]);
+
+  return state;
+};
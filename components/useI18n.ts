@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { i18n } from '../services/i18n';
+import { Translator } from '../services/translator';
+
+/** The active translator; the component re-renders when the language changes. */
+export const useI18n = (): Translator => {
+  const [translator, setTranslator] = useState(() => i18n.getTranslator());
+  useEffect(() => i18n.subscribe(setTranslator), []);
+  return translator;
+};
@@ -1,37 +1,187 @@
+import { Calibration, ImpactTable, LiveScanSettings, LocaleBundle, Milestone, ModelProfile, ProductEntry, ResinCodeEntry, WasteTaxonomy } from './types';
+import globalPack from './rulepacks/global.json';
+import germanyPack from './rulepacks/germany.json';
+import ruralNoGlassPack from './rulepacks/rural-no-glass.json';
+import resinCodeTable from './materials/resinCodes.json';
+import productTable from './materials/products.json';
+import wasteTaxonomy from './taxonomy/waste.json';
+import defaultCalibration from './calibration/default.json';
+import impactFactors from './impact/factors.json';
+import englishBundle from './i18n/en.json';
+import spanishBundle from './i18n/es.json';
+import germanBundle from './i18n/de.json';
+import sampleFacilities from './facilities/sample.json';
 
-import { WasteCategory, WasteMapping } from './types';
-
-export const WASTE_MAPPINGS: WasteMapping[] = [
-  {
-    category: WasteCategory.ORGANIC,
-    keywords: ['banana', 'apple', 'orange', 'lemon', 'fruit', 'vegetable', 'strawberry', 'pineapple', 'food', 'corn', 'broccoli', 'cabbage', 'bread', 'meat', 'egg'],
-    instructions: 'Compost if possible, otherwise place in the organic/green bin. Remove any plastic stickers from fruits.'
-  },
-  {
-    category: WasteCategory.PLASTIC,
-    keywords: ['bottle', 'water bottle', 'plastic bag', 'shampoo', 'detergent', 'container', 'jug', 'plastic'],
-    instructions: 'Rinse and dry before recycling. Ensure it belongs to supported plastic types (usually #1, #2, #5).'
-  },
-  {
-    category: WasteCategory.PAPER,
-    keywords: ['paper', 'envelope', 'carton', 'cardboard', 'box', 'book', 'magazine', 'notebook', 'newspaper'],
-    instructions: 'Keep dry and flat. Remove any plastic lining or metal components. Do not recycle paper soiled with grease (like pizza boxes).'
-  },
-  {
-    category: WasteCategory.METAL,
-    keywords: ['can', 'tin', 'aluminum', 'foil', 'brass', 'iron', 'steel', 'metal', 'screw', 'hammer'],
-    instructions: 'Rinse and dry. Aluminum and steel cans are highly recyclable. Crumple foil into a ball (at least 2 inches wide).'
-  },
-  {
-    category: WasteCategory.GLASS,
-    keywords: ['glass', 'wine bottle', 'beer bottle', 'jar', 'mason jar', 'goblet', 'beaker'],
-    instructions: 'Rinse and remove caps. Dispose in the glass bin. Avoid mixing with ceramics or heat-resistant glass like Pyrex.'
-  },
-  {
-    category: WasteCategory.E_WASTE,
-    keywords: ['phone', 'mobile', 'computer', 'laptop', 'keyboard', 'mouse', 'battery', 'remote', 'electronics', 'circuit', 'tablet'],
-    instructions: 'Must be taken to a specialized e-waste collection center. Do not throw in regular trash or recycling bins.'
-  }
+// Rule-pack JSON format understood by this build; bump when the schema changes
+export const RULE_PACK_SCHEMA_VERSION = 1;
+
+export const DEFAULT_RULE_PACK_ID = 'global';
+
+// Bundled regional packs. They are validated on load like user-imported ones.
+export const BUNDLED_RULE_PACKS: unknown[] = [globalPack, germanyPack, ruralNoGlassPack];
+
+export const STORAGE_KEYS = {
+  activeRulePack: 'ecoclear.rulePack.active',
+  customRulePacks: 'ecoclear.rulePack.custom',
+  labelOverrides: 'ecoclear.labelOverrides',
+  liveScanSettings: 'ecoclear.liveScan',
+  // sessionStorage: cloud consent must be given again in every session
+  cloudOptIn: 'ecoclear.cloudOptIn',
+  activeBackend: 'ecoclear.backend',
+  cameraDevice: 'ecoclear.cameraDevice',
+  augmentation: 'ecoclear.augmentation',
+  abstainThreshold: 'ecoclear.abstainThreshold',
+  locale: 'ecoclear.locale',
+  customFacilities: 'ecoclear.facilities.custom',
+  facilityPostcode: 'ecoclear.facilities.postcode',
+  handsFree: 'ecoclear.handsFree',
+  modelProfile: 'ecoclear.modelProfile',
+  modelBenchmark: 'ecoclear.modelBenchmark'
+};
+
+// Number of MobileNet predictions fused into a single category decision
+export const TOP_K_PREDICTIONS = 5;
+
+// Multi-object detection: cap on items per frame and minimum COCO-SSD box score
+export const DETECTION_MAX_OBJECTS = 8;
+export const DETECTION_MIN_SCORE = 0.4;
+// Extra context around each detected box before it is cropped for MobileNet
+export const DETECTION_CROP_PADDING = 0.1;
+
+// On-device IndexedDB storage; bump DB_VERSION whenever a store is added
+export const DB_NAME = 'ecoclear';
+export const DB_VERSION = 3;
+export const DB_STORES: Record<string, string> = {
+  scans: 'id',
+  customHeads: 'id',
+  impact: 'id'
+};
+
+// Longest edge of the JPEG thumbnail kept with each history entry
+export const HISTORY_THUMBNAIL_SIZE = 160;
+
+// Version tag written into exported label-correction files
+export const LABEL_OVERRIDES_FORMAT = 'ecoclear-label-overrides';
+export const LABEL_OVERRIDES_VERSION = 1;
+
+// Custom (KNN) classes trained on MobileNet embeddings
+export const CUSTOM_CLASSIFIER_K = 5;
+// Nearest stored sample must be at least this similar (cosine) before a custom class wins
+export const CUSTOM_MIN_SIMILARITY = 0.75;
+export const CUSTOM_MIN_CONFIDENCE = 0.6;
+export const CUSTOM_HEAD_FORMAT = 'ecoclear-custom-head';
+export const CUSTOM_HEAD_VERSION = 1;
+
+// Live Scan defaults; users can tune these in the scan settings panel
+export const DEFAULT_LIVE_SCAN_SETTINGS: LiveScanSettings = {
+  intervalMs: 800,
+  windowSize: 6,
+  stableFrames: 3,
+  minConfidence: 0.2,
+  adaptiveInterval: true
+};
+// Adaptive Live Scan waits this many times the recent inference latency between frames,
+// so the model is busy about half the time on any device
+export const LIVE_SCAN_IDLE_RATIO = 1;
+export const LIVE_SCAN_ADAPTIVE_RANGE_MS: [number, number] = [200, 3000];
+// Recent inferences kept for the latency figures
+export const LATENCY_WINDOW = 30;
+// How often the open diagnostics panel re-reads tf.memory()
+export const DIAGNOSTICS_REFRESH_MS = 2000;
+
+// Optional cloud backend; only used after the user opts in for the session
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+// Longest edge of the JPEG sent to the cloud backend
+export const GEMINI_MAX_IMAGE_SIZE = 768;
+
+// tf.io IndexedDB keys for model weights saved after the first download; MobileNet's are per profile
+export const MODEL_STORE_KEYS = {
+  detector: 'ecoclear-coco-ssd-lite'
+};
+
+// MobileNet variants, smallest first
+export const MODEL_PROFILES: ModelProfile[] = [
+  { id: 'v1-0.25', name: 'MobileNet v1 0.25', version: 1, alpha: 0.25, mmacs: 41, sizeMb: 2, storeKey: 'ecoclear-mobilenet-v1-0.25' },
+  { id: 'v2-0.5', name: 'MobileNet v2 0.5', version: 2, alpha: 0.5, mmacs: 97, sizeMb: 8, storeKey: 'ecoclear-mobilenet-v2-0.5' },
+  { id: 'v2-0.75', name: 'MobileNet v2 0.75', version: 2, alpha: 0.75, mmacs: 209, sizeMb: 11, storeKey: 'ecoclear-mobilenet-v2-0.75' },
+  { id: 'v2-1.0', name: 'MobileNet v2', version: 2, alpha: 1.0, mmacs: 300, sizeMb: 14, storeKey: 'ecoclear-mobilenet-v2-1.0' }
 ];
+// Used until the startup benchmark has run, and when it fails
+export const DEFAULT_MODEL_PROFILE_ID = 'v2-1.0';
+// Automatic choice: the largest profile whose estimated latency fits this budget
+export const AUTO_PROFILE_BUDGET_MS = 120;
+// Startup micro-benchmark: a 3x3 convolution over a 56x56x32 feature map, timed after one warm-up run
+export const BENCHMARK_SHAPE = { size: 56, channels: 32, runs: 5 };
+
+// Local material tables used to refine results from barcodes and resin codes
+export const RESIN_CODES: ResinCodeEntry[] = resinCodeTable;
+export const PRODUCTS = productTable as ProductEntry[];
+// Used when a rule pack doesn't list its accepted resin codes
+export const DEFAULT_ACCEPTED_RESIN_CODES = [1, 2, 5];
+export const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+// Confidence reported when a printed code, rather than the model, settles the category
+export const BARCODE_CONFIDENCE = 0.99;
+export const RESIN_CODE_CONFIDENCE = 0.9;
+// Longest edge of the image passed to OCR when looking for resin codes
+export const RESIN_OCR_MAX_SIZE = 1024;
+
+// Category -> subcategory -> item taxonomy used for specific instructions and hazards
+export const TAXONOMY = wasteTaxonomy as WasteTaxonomy;
+
+// TensorFlow.js backends tried in order inside the inference worker
+export const INFERENCE_BACKENDS = ['webgl', 'wasm', 'cpu'] as const;
+// The WASM binaries are fetched at runtime rather than bundled
+export const TFJS_WASM_PATH = 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@4.17.0/dist/';
+
+// Side of the tap-to-select region, as a fraction of the frame's shorter side
+export const CAMERA_ROI_SIZE = 0.5;
+// JPEG quality of camera snapshots sent to the upload flow
+export const SNAPSHOT_QUALITY = 0.92;
+
+// Uploads are decoded at most this large on their longest side; enough for barcodes and OCR
+export const PREPROCESS_MAX_SIZE = 1600;
+// Bytes read from the start of a file to find its dimensions and EXIF orientation
+export const IMAGE_HEADER_BYTES = 128 * 1024;
+// Test-time augmentation views, as fractions of the image side
+export const TTA_CENTER_FRACTION = 0.7;
+export const TTA_CORNER_FRACTION = 0.6;
+// Drags smaller than this fraction of the preview are treated as taps
+export const CROP_MIN_FRACTION = 0.05;
+// One arrow key press moves or resizes the crop box (or the Live Scan region) by this fraction
+export const CROP_KEYBOARD_STEP = 0.05;
+// The box the keyboard starts from when nothing is selected yet, centred
+export const CROP_KEYBOARD_SIZE = 0.5;
+
+// MobileNet's input resolution, and the cell size its saliency maps are averaged over (a 14×14 grid)
+export const MOBILENET_INPUT_SIZE = 224;
+export const SALIENCY_CELL_SIZE = 16;
+
+// Per-category temperatures for the MobileNet mapping. Regenerate with
+// `npm run benchmark -- <dataset> --fit-calibration calibration/default.json`.
+export const CALIBRATION = defaultCalibration as Calibration;
+// Results whose calibrated confidence falls below this are shown as uncertain
+export const DEFAULT_ABSTAIN_THRESHOLD = 0.3;
+
+// Savings per category for the eco-score; edit impact/factors.json to use local figures
+export const IMPACT_TABLE = impactFactors as ImpactTable;
+export const IMPACT_MILESTONES: Milestone[] = [
+  ...[10, 50, 100, 250, 500, 1000].map(threshold => ({ kind: 'items' as const, threshold })),
+  ...[1, 5, 10, 25, 50, 100].map(threshold => ({ kind: 'co2e' as const, threshold }))
+];
+// Version tag written into exported impact reports
+export const IMPACT_REPORT_FORMAT = 'ecoclear-impact-report';
+export const IMPACT_REPORT_VERSION = 1;
+
+// UI languages, keyed by BCP 47 language code; English fills any missing string
+export const DEFAULT_LOCALE = 'en';
+export const LOCALE_BUNDLES: Record<string, LocaleBundle> = {
+  en: englishBundle as LocaleBundle,
+  es: spanishBundle as LocaleBundle,
+  de: germanBundle as LocaleBundle
+};
 
-export const UNKNOWN_INSTRUCTIONS = "Item not recognized. Please check your local waste authority guidelines or try taking a clearer photo from a different angle.";
+// Drop-off points shown until a municipality's own dataset is imported; validated on load
+export const BUNDLED_FACILITIES: unknown = sampleFacilities;
+// Nearest facilities listed on the result card
+export const FACILITY_RESULT_LIMIT = 3;
+export const GEOLOCATION_TIMEOUT_MS = 10000;
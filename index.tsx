@@ -14,3 +14,18 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The service worker only runs in production builds; in dev it would serve stale modules
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      // Hand over what this first visit already downloaded so it is cached too
+      const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls: [location.href, ...urls] });
+    } catch (err) {
+      console.warn('Service worker registration failed:', err);
+    }
+  });
+}
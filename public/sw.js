@@ -0,0 +1,84 @@
+// EcoClear service worker: keeps the app shell and its CDN dependencies available offline.
+// Model weights are not cached here; the app saves them to IndexedDB via tf.io (see services/modelStore.ts).
+
+const SHELL_CACHE = 'ecoclear-shell-v1';
+const RUNTIME_CACHE = 'ecoclear-runtime-v1';
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Third-party hosts the shell and the OCR engine load from at runtime
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'cdn.jsdelivr.net'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !keep.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page posts the resources it loaded before this worker took control
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  const urls = event.data.urls.filter(isCacheable);
+  event.waitUntil(
+    caches.open(RUNTIME_CACHE).then(cache =>
+      Promise.all(urls.map(url => cache.match(url).then(hit => hit || cache.add(url).catch(() => undefined))))
+    )
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (isCacheable(request.url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+function isCacheable(url) {
+  const { origin, hostname } = new URL(url, self.location.origin);
+  return origin === self.location.origin || CDN_HOSTS.includes(hostname);
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    // A 404 or 5xx page must not replace the shell that offline visits fall back to
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await caches.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      // Opaque responses (status 0) come from no-cors CDN requests and are still usable
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+}
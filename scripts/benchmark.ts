@@ -0,0 +1,201 @@
+// Measures the label -> category mapping against a folder of labelled photos.
+// Each subfolder is named after the expected category (Organic, Plastic, Paper,
+// Metal, Glass, E-waste, Unknown; case and punctuation are ignored).
+//
+//   npm run benchmark -- ./dataset
+//   npm run benchmark -- ./dataset --pack de --model ./mobilenet/model.json --min-accuracy 0.7
+//   npm run benchmark -- ./dataset --fit-calibration calibration/default.json
+//
+// --fit-calibration fits per-category temperatures to the dataset and writes
+// them out; --calibration and --abstain evaluate with a calibration and an
+// uncertainty threshold as the app would.
+//
+// Uses @tensorflow/tfjs-node when it is installed and the pure-JS CPU backend
+// otherwise. --model points at a local MobileNet v2 (1.0) graph model so no
+// network is needed; without it the weights are downloaded.
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { Calibration, RulePack, WasteCategory } from '../types';
+import { BUNDLED_RULE_PACKS, DEFAULT_RULE_PACK_ID } from '../constants';
+import { validateRulePack } from '../services/rulePackSchema';
+import { createHeadlessClassifier } from '../services/headlessClassifier';
+import { BenchmarkSample, evaluate, formatReport } from '../services/benchmark';
+import { CalibrationSample, fitCalibration, negativeLogLikelihood, validateCalibration } from '../services/calibration';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png']);
+
+type ImageDecoder = (buffer: Buffer, extension: string) => tf.Tensor3D;
+
+const usage = `Usage: npm run benchmark -- <dataset-dir> [--pack <id|file.json>] [--model <model.json>] [--calibration <file.json>] [--abstain <0-1>] [--fit-calibration <out.json>] [--json] [--min-accuracy <0-1>] [--verbose]`;
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+const categoryForFolder = (name: string): WasteCategory | undefined =>
+  (Object.values(WasteCategory) as WasteCategory[]).find(category => normalize(category) === normalize(name));
+
+const loadPack = async (choice: string | undefined): Promise<RulePack> => {
+  if (choice?.endsWith('.json')) {
+    return validateRulePack(JSON.parse(await readFile(choice, 'utf8')));
+  }
+  const id = choice ?? DEFAULT_RULE_PACK_ID;
+  const pack = BUNDLED_RULE_PACKS.map(raw => validateRulePack(raw)).find(p => p.id === id);
+  if (!pack) throw new Error(`No bundled rule pack with id "${id}".`);
+  return pack;
+};
+
+/** Reads a graph model saved as model.json plus weight shards from disk. */
+const fileSystemModel = (modelJsonPath: string): tf.io.IOHandler => ({
+  load: async () => {
+    const modelJson = JSON.parse(await readFile(modelJsonPath, 'utf8')) as tf.io.ModelJSON;
+    return tf.io.getModelArtifactsForJSON(modelJson, async manifest => {
+      const shards: ArrayBuffer[] = [];
+      for (const group of manifest) {
+        for (const shard of group.paths) {
+          const buffer = await readFile(path.join(path.dirname(modelJsonPath), shard));
+          shards.push(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+        }
+      }
+      return [tf.io.getWeightSpecs(manifest), tf.io.concatenateArrayBuffers(shards)];
+    });
+  }
+});
+
+const decodeWithJs: ImageDecoder = (buffer, extension) => {
+  const { width, height, data } = extension === '.png'
+    ? PNG.sync.read(buffer)
+    : jpeg.decode(buffer, { useTArray: true, maxMemoryUsageInMB: 1024 });
+
+  // Both decoders return RGBA; MobileNet wants RGB
+  const rgb = new Int32Array(width * height * 3);
+  for (let src = 0, dst = 0; src < data.length; src += 4) {
+    rgb[dst++] = data[src];
+    rgb[dst++] = data[src + 1];
+    rgb[dst++] = data[src + 2];
+  }
+  return tf.tensor3d(rgb, [height, width, 3], 'int32');
+};
+
+/** Prefers tfjs-node's native backend and decoder when it is installed. */
+const setUpRuntime = async (): Promise<ImageDecoder> => {
+  // Kept out of the dependencies: its native binary doesn't install everywhere
+  const tfNodeModule = '@tensorflow/tfjs-node';
+  try {
+    const tfNode = await import(tfNodeModule);
+    return buffer => tfNode.node.decodeImage(buffer, 3) as tf.Tensor3D;
+  } catch {
+    await tf.setBackend('cpu');
+    return decodeWithJs;
+  }
+};
+
+const listImages = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(async entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listImages(full);
+    return IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) ? [full] : [];
+  }));
+  return nested.flat();
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      pack: { type: 'string' },
+      model: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      'min-accuracy': { type: 'string' },
+      calibration: { type: 'string' },
+      'fit-calibration': { type: 'string' },
+      abstain: { type: 'string' },
+      verbose: { type: 'boolean', default: false }
+    }
+  });
+
+  const datasetDir = positionals[0];
+  if (!datasetDir) {
+    console.error(usage);
+    process.exit(2);
+  }
+
+  const decode = await setUpRuntime();
+  const pack = await loadPack(values.pack);
+  const calibration: Calibration | undefined = values.calibration
+    ? validateCalibration(JSON.parse(await readFile(values.calibration, 'utf8')))
+    : undefined;
+  const classifier = await createHeadlessClassifier({
+    pack,
+    modelUrl: values.model ? fileSystemModel(path.resolve(values.model)) : undefined,
+    calibration,
+    abstainThreshold: values.abstain !== undefined ? Number(values.abstain) : undefined
+  }).catch(err => {
+    throw new Error(`Could not load MobileNet (${err.message}). Pass --model with a local copy when offline.`);
+  });
+
+  const samples: BenchmarkSample[] = [];
+  const folders = (await readdir(datasetDir, { withFileTypes: true })).filter(entry => entry.isDirectory());
+
+  for (const folder of folders) {
+    const expected = categoryForFolder(folder.name);
+    if (!expected) {
+      console.error(`Skipping "${folder.name}": not a waste category.`);
+      continue;
+    }
+
+    for (const file of await listImages(path.join(datasetDir, folder.name))) {
+      let image: tf.Tensor3D;
+      try {
+        image = decode(await readFile(file), path.extname(file).toLowerCase());
+      } catch (err) {
+        console.error(`Skipping ${file}: ${(err as Error).message}`);
+        continue;
+      }
+
+      try {
+        const { result, predictions, scores } = await classifier.classify(image);
+        samples.push({
+          file: path.relative(datasetDir, file),
+          expected,
+          predicted: result.category,
+          label: predictions[0]?.className ?? '',
+          confidence: result.confidence,
+          uncertain: !!result.uncertain,
+          scores
+        });
+        if (values.verbose && result.category !== expected) {
+          console.error(`✗ ${path.relative(datasetDir, file)}: expected ${expected}, got ${result.category} ('${predictions[0]?.className}')`);
+        }
+      } finally {
+        image.dispose();
+      }
+    }
+    console.error(`${folder.name}: done`);
+  }
+
+  const fitPath = values['fit-calibration'];
+  if (fitPath) {
+    const labelled: CalibrationSample[] = samples.map(({ scores, expected }) => ({ scores: scores ?? {}, expected }));
+    const fitted = fitCalibration(labelled);
+    await writeFile(fitPath, `${JSON.stringify(fitted, null, 2)}\n`);
+    console.error(`Calibration written to ${fitPath}. Log loss ${negativeLogLikelihood(labelled, { temperatures: {} }).toFixed(3)} -> ${negativeLogLikelihood(labelled, fitted).toFixed(3)}.`);
+  }
+
+  const report = evaluate(samples);
+  console.log(values.json ? JSON.stringify({ pack: pack.id, ...report, samples }, null, 2) : formatReport(report));
+
+  const minAccuracy = values['min-accuracy'] !== undefined ? Number(values['min-accuracy']) : undefined;
+  if (minAccuracy !== undefined && report.accuracy < minAccuracy) {
+    console.error(`Accuracy ${(report.accuracy * 100).toFixed(1)}% is below the required ${(minAccuracy * 100).toFixed(1)}%.`);
+    process.exit(1);
+  }
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
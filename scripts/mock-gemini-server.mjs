@@ -0,0 +1,60 @@
+// Minimal stand-in for the Gemini generateContent endpoint, for exercising the
+// cloud backend without a real API key or network access.
+//
+//   npm run mock:gemini            # listens on http://localhost:8787
+//   GEMINI_API_KEY=test GEMINI_BASE_URL=http://localhost:8787 npm run dev
+//
+// Set MOCK_GEMINI_RESPONSE to a JSON verdict to change the canned answer, or
+// MOCK_GEMINI_STATUS to an HTTP error code to test failure handling.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+const status = Number(process.env.MOCK_GEMINI_STATUS ?? 200);
+const verdict = process.env.MOCK_GEMINI_RESPONSE ?? JSON.stringify({
+  category: 'Glass',
+  label: 'wine bottle',
+  confidence: 0.93,
+  reasoning: 'Mock verdict: dark green transparent bottle with a cork finish.',
+  alternatives: [{ category: 'Plastic', score: 0.05 }]
+});
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const isGenerate = req.method === 'POST' && /:generateContent$/.test(req.url ?? '');
+    console.log(`${req.method} ${req.url} (${body.length} bytes)`);
+
+    if (!isGenerate) {
+      res.writeHead(404, { ...cors, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }));
+      return;
+    }
+    if (status !== 200) {
+      res.writeHead(status, { ...cors, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: status, message: 'Mock failure', status: 'INTERNAL' } }));
+      return;
+    }
+
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: verdict }] }, finishReason: 'STOP' }]
+    }));
+  });
+});
+
+// PORT=0 picks a free port; the log line reports the one actually bound
+server.listen(port, () => {
+  console.log(`Mock Gemini server listening on http://localhost:${server.address().port}`);
+});
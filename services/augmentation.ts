@@ -0,0 +1,79 @@
+import { AugmentationMode, ClassificationResult, WasteCategory } from '../types';
+import { STORAGE_KEYS, TTA_CENTER_FRACTION, TTA_CORNER_FRACTION } from '../constants';
+import { i18n } from './i18n';
+
+const MODES: AugmentationMode[] = ['off', 'center', 'multi'];
+
+export const loadAugmentationMode = (): AugmentationMode => {
+  const stored = localStorage.getItem(STORAGE_KEYS.augmentation) as AugmentationMode | null;
+  return stored && MODES.includes(stored) ? stored : 'off';
+};
+
+export const saveAugmentationMode = (mode: AugmentationMode): void => {
+  localStorage.setItem(STORAGE_KEYS.augmentation, mode);
+};
+
+/** A `fraction`-sized crop of the source, aligned by fractions of the leftover space. */
+const cropView = (source: HTMLCanvasElement, fraction: number, alignX: number, alignY: number): HTMLCanvasElement => {
+  const width = Math.round(source.width * fraction);
+  const height = Math.round(source.height * fraction);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  canvas.getContext('2d')!.drawImage(
+    source,
+    (source.width - width) * alignX,
+    (source.height - height) * alignY,
+    width,
+    height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  return canvas;
+};
+
+/**
+ * The views classified for an upload, the full image first. Small items in
+ * a cluttered photo often only win once the background is cropped away.
+ */
+export const getAugmentedViews = (source: HTMLCanvasElement, mode: AugmentationMode): HTMLCanvasElement[] => {
+  if (mode === 'off') return [source];
+  const views = [source, cropView(source, TTA_CENTER_FRACTION, 0.5, 0.5)];
+  if (mode === 'multi') {
+    for (const [alignX, alignY] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+      views.push(cropView(source, TTA_CORNER_FRACTION, alignX, alignY));
+    }
+  }
+  return views;
+};
+
+/**
+ * Merges per-view results by confidence-weighted vote, like Live Scan does
+ * across frames. The winning category's most confident view supplies the
+ * label and instructions; its confidence is the vote share over all views.
+ */
+export const mergeViewResults = (results: ClassificationResult[]): ClassificationResult => {
+  if (results.length === 1) return results[0];
+
+  const votes = new Map<WasteCategory, number>();
+  for (const result of results) {
+    if (result.category !== WasteCategory.UNKNOWN) {
+      votes.set(result.category, (votes.get(result.category) ?? 0) + result.confidence);
+    }
+  }
+  const ranked = Array.from(votes.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return results[0];
+
+  const [winner, score] = ranked[0];
+  const supporting = results.filter(result => result.category === winner);
+  const best = supporting.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+  return {
+    ...best,
+    confidence: score / results.length,
+    reasoning: i18n.t('reasoning.views', { reasoning: best.reasoning, agreed: supporting.length, total: results.length }),
+    alternatives: ranked.slice(1).map(([category, total]) => ({ category, score: total / results.length }))
+  };
+};
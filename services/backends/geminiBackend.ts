@@ -0,0 +1,182 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { CategoryScore, ClassificationResult, ClassifierBackend, ImageSource, WasteCategory } from '../../types';
+import { GEMINI_MAX_IMAGE_SIZE, GEMINI_MODEL } from '../../constants';
+import { rulePackManager } from '../rulePacks';
+import { taxonomy } from '../taxonomy';
+import { i18n } from '../i18n';
+
+export interface GeminiBackendOptions {
+  apiKey?: string;
+  // Point at a local mock server to exercise the backend without Google's API
+  baseUrl?: string;
+  model?: string;
+}
+
+interface GeminiVerdict {
+  category: string;
+  label: string;
+  confidence: number;
+  reasoning: string;
+  alternatives: { category: string; score: number }[];
+}
+
+const CATEGORIES = Object.values(WasteCategory) as string[];
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING, enum: CATEGORIES },
+    label: { type: Type.STRING, description: 'Short name of the item, e.g. "wine bottle".' },
+    confidence: { type: Type.NUMBER, description: 'Probability between 0 and 1.' },
+    reasoning: { type: Type.STRING, description: 'One or two sentences on the visual evidence and the material.' },
+    alternatives: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: CATEGORIES },
+          score: { type: Type.NUMBER }
+        },
+        required: ['category', 'score']
+      }
+    }
+  },
+  required: ['category', 'label', 'confidence', 'reasoning']
+};
+
+const clampScore = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Narrows Gemini's JSON to a verdict. The response schema is only a request,
+ * so anything that isn't a verdict object throws; missing or mistyped fields
+ * fall back to harmless defaults.
+ */
+export const parseVerdict = (text: string): GeminiVerdict => {
+  const raw: unknown = JSON.parse(text);
+  if (!isPlainObject(raw)) {
+    throw new Error('Gemini did not return a verdict object.');
+  }
+  if (raw.alternatives !== undefined && !Array.isArray(raw.alternatives)) {
+    throw new Error('Gemini returned alternatives that are not a list.');
+  }
+  return {
+    category: typeof raw.category === 'string' ? raw.category : WasteCategory.UNKNOWN,
+    label: typeof raw.label === 'string' ? raw.label : '',
+    confidence: clampScore(raw.confidence),
+    reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
+    alternatives: ((raw.alternatives as unknown[] | undefined) ?? [])
+      .filter(isPlainObject)
+      .map(alt => ({ category: String(alt.category), score: clampScore(alt.score) }))
+  };
+};
+
+const toJpegBase64 = (element: ImageSource): string => {
+  const width = element instanceof HTMLVideoElement ? element.videoWidth : element instanceof HTMLImageElement ? element.naturalWidth : element.width;
+  const height = element instanceof HTMLVideoElement ? element.videoHeight : element instanceof HTMLImageElement ? element.naturalHeight : element.height;
+  const scale = Math.min(1, GEMINI_MAX_IMAGE_SIZE / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(element, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+};
+
+/**
+ * Cloud backend that asks Gemini for a structured verdict. The image leaves
+ * the device, so the facade only enables it after an explicit opt-in.
+ */
+export class GeminiBackend implements ClassifierBackend {
+  public readonly id = 'gemini';
+  public readonly displayName: string;
+  public readonly privacy = 'cloud' as const;
+  public readonly capabilities = { detection: false, customClasses: false, liveScan: false, offline: false };
+
+  private client: GoogleGenAI | null = null;
+
+  constructor(private options: GeminiBackendOptions) {
+    this.displayName = `Gemini (${options.model ?? GEMINI_MODEL})`;
+  }
+
+  public isAvailable(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  public async load(): Promise<void> {
+    if (this.client) return;
+    if (!this.options.apiKey) {
+      throw new Error(i18n.t('backend.error.geminiConfig'));
+    }
+    this.client = new GoogleGenAI({
+      apiKey: this.options.apiKey,
+      httpOptions: this.options.baseUrl ? { baseUrl: this.options.baseUrl } : undefined
+    });
+  }
+
+  public async classifyElement(element: ImageSource): Promise<ClassificationResult> {
+    await this.load();
+    const pack = rulePackManager.getActivePack();
+
+    let verdict: GeminiVerdict;
+    try {
+      const response = await this.client!.models.generateContent({
+        model: this.options.model ?? GEMINI_MODEL,
+        contents: [
+          { inlineData: { mimeType: 'image/jpeg', data: toJpegBase64(element) } },
+          { text: this.buildPrompt() }
+        ],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA,
+          temperature: 0
+        }
+      });
+      verdict = parseVerdict(response.text ?? '');
+    } catch (err) {
+      console.error('Gemini request failed:', err);
+      throw new Error(i18n.t('backend.error.cloud'));
+    }
+
+    const category = CATEGORIES.includes(verdict.category) ? verdict.category as WasteCategory : WasteCategory.UNKNOWN;
+    const mapping = pack.categories.find(c => c.category === category);
+    const alternatives: CategoryScore[] = verdict.alternatives
+      .filter(alt => CATEGORIES.includes(alt.category) && alt.category !== category)
+      .map(alt => ({ category: alt.category as WasteCategory, score: alt.score }))
+      .sort((a, b) => b.score - a.score);
+    const label = verdict.label || i18n.t('reasoning.unknownLabel');
+    // Gemini's free-text label can still pin down a taxonomy item within its category
+    const described = taxonomy.describeLabel(label, category, pack);
+
+    return {
+      category,
+      confidence: verdict.confidence,
+      label,
+      reasoning: verdict.reasoning,
+      ...described,
+      alternatives,
+      binColor: mapping?.binColor,
+      dropOffNotes: mapping?.dropOffNotes
+    };
+  }
+
+  private buildPrompt(): string {
+    const pack = rulePackManager.getActivePack();
+    const rules = pack.categories.map(c => `- ${c.category}: ${c.instructions}`).join('\n');
+    return [
+      'You sort household waste. Identify the main item in the photo and choose the bin it belongs in.',
+      `Local rules (${pack.name}):`,
+      rules,
+      `Use "${WasteCategory.UNKNOWN}" if the item fits none of these bins or you cannot tell.`,
+      'Explain the visual evidence (material, shape, labels, contamination) in the reasoning, and list other plausible bins as alternatives.',
+      `Write the label and reasoning in ${i18n.getLanguageName()}; keep the category names in English exactly as listed.`
+    ].join('\n');
+  }
+}
+
+export const geminiBackend = new GeminiBackend({
+  apiKey: process.env.GEMINI_API_KEY,
+  baseUrl: process.env.GEMINI_BASE_URL
+});
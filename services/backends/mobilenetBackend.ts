@@ -0,0 +1,202 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  WasteCategory,
+  ClassificationResult,
+  DetectionResult,
+  ClassifierBackend,
+  ClassifyOptions,
+  ImageSource,
+  SaliencyMap
+} from '../../types';
+import { TOP_K_PREDICTIONS, DETECTION_MAX_OBJECTS, DETECTION_MIN_SCORE, DETECTION_CROP_PADDING, CALIBRATION } from '../../constants';
+import { rulePackManager } from '../rulePacks';
+import { labelOverrides } from '../labelOverrides';
+import { customClassifier, CustomPrediction } from '../customClassifier';
+import { taxonomy } from '../taxonomy';
+import { i18n } from '../i18n';
+import { modelProfiles } from '../modelProfiles';
+import { telemetry } from '../telemetry';
+import { mapPredictionsToWaste, MappingContext } from '../labelMapping';
+import { inferenceClient, InferenceCancelledError } from '../inference/inferenceClient';
+import type { DetectOutput } from '../inference/engine';
+import { ClassifyOutput, Embedding, Saliency } from '../inference/protocol';
+
+const getSourceSize = (element: ImageSource) => {
+  if (element instanceof HTMLVideoElement) return { width: element.videoWidth, height: element.videoHeight };
+  if (element instanceof HTMLImageElement) return { width: element.naturalWidth, height: element.naturalHeight };
+  return { width: element.width, height: element.height };
+};
+
+const toSaliencyMap = ({ data, size, className }: Saliency): SaliencyMap => ({
+  columns: size,
+  rows: size,
+  values: Array.from(data),
+  label: className
+});
+
+/**
+ * The default backend: MobileNet (plus COCO-SSD and the custom KNN head)
+ * running entirely in the browser via TensorFlow.js. The models themselves
+ * run in the inference worker; the KNN head and the mapping run here.
+ */
+class MobileNetBackend implements ClassifierBackend {
+  public readonly id = 'mobilenet';
+  // The loaded profile's name, e.g. "MobileNet v2 0.5"
+  public get displayName(): string {
+    return (telemetry.getLoad()?.profile ?? modelProfiles.getActive()).name;
+  }
+  public readonly privacy = 'on-device' as const;
+  public readonly capabilities = { detection: true, customClasses: true, liveScan: true, offline: true };
+
+  private detectorPromise: Promise<void> | null = null;
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async load(): Promise<void> {
+    try {
+      await Promise.all([inferenceClient.load(), customClassifier.load()]);
+    } catch (error) {
+      console.error('Error loading MobileNet model:', error);
+      throw new Error(i18n.t('backend.error.load'));
+    }
+  }
+
+  /**
+   * The COCO-SSD detector is only needed for multi-object mode, so it is
+   * downloaded on first use rather than alongside MobileNet.
+   */
+  public loadDetector(): Promise<void> {
+    if (!this.detectorPromise) {
+      this.detectorPromise = this.load()
+        .then(() => inferenceClient.loadDetector())
+        .catch(error => {
+          console.error('Error loading COCO-SSD detector:', error);
+          this.detectorPromise = null;
+          throw new Error(i18n.t('backend.error.detector'));
+        });
+    }
+    return this.detectorPromise;
+  }
+
+  public async classifyElement(element: ImageSource, options: ClassifyOptions = {}): Promise<ClassificationResult> {
+    await this.load();
+
+    try {
+      // Embeddings are only needed when there are custom classes to compare against
+      const output = await inferenceClient.classify(element, TOP_K_PREDICTIONS, customClassifier.hasSamples(), options.explain, options.frame);
+      return await this.toResult(output);
+    } catch (err) {
+      if (err instanceof InferenceCancelledError) throw err;
+      console.error('Inference error:', err);
+      throw new Error(i18n.t('backend.error.classify'));
+    }
+  }
+
+  /** Captures the element's MobileNet embedding as a training sample for a custom class. */
+  public async addCustomSample(element: ImageSource, classId: string): Promise<void> {
+    await this.load();
+
+    const embedding = this.toTensor(await inferenceClient.embed(element));
+    try {
+      await customClassifier.addSample(classId, embedding);
+    } finally {
+      embedding.dispose();
+    }
+  }
+
+  /**
+   * Finds every distinct object in the frame, crops each one and runs it
+   * through the regular waste classification.
+   */
+  public async detectElement(element: ImageSource, options: ClassifyOptions = {}): Promise<DetectionResult[]> {
+    await this.loadDetector();
+    const { width, height } = getSourceSize(element);
+
+    let output: DetectOutput;
+    try {
+      output = await inferenceClient.detect(element, TOP_K_PREDICTIONS, customClassifier.hasSamples(), {
+        maxObjects: DETECTION_MAX_OBJECTS,
+        minScore: DETECTION_MIN_SCORE,
+        padding: DETECTION_CROP_PADDING
+      }, options.frame);
+    } catch (err) {
+      if (err instanceof InferenceCancelledError) throw err;
+      console.error('Detection error:', err);
+      throw new Error(i18n.t('backend.error.detect'));
+    }
+
+    if (output.whole) {
+      // Nothing distinct found: fall back to a single whole-frame result
+      const result = await this.toResult(output.whole);
+      return [{ ...result, box: { x: 0, y: 0, width, height }, detectedClass: result.label, detectionScore: 0 }];
+    }
+
+    const results: DetectionResult[] = [];
+    for (const object of output.objects) {
+      let result = await this.toResult(object);
+
+      if (result.category === WasteCategory.UNKNOWN) {
+        // MobileNet couldn't place the crop, so try the detector's own label
+        const fallback = mapPredictionsToWaste([{ className: object.detectedClass, probability: object.detectionScore }], this.mappingContext());
+        if (fallback.category !== WasteCategory.UNKNOWN) result = fallback;
+      }
+
+      results.push({ ...result, box: object.box, detectedClass: object.detectedClass, detectionScore: object.detectionScore });
+    }
+    return results;
+  }
+
+  /** User-trained classes are consulted before the ImageNet keyword mapping. */
+  private async toResult({ predictions, embedding, saliency }: ClassifyOutput): Promise<ClassificationResult> {
+    const custom = embedding ? await this.classifyCustom(embedding) : null;
+    const result = custom ?? mapPredictionsToWaste(predictions, this.mappingContext());
+    return saliency ? { ...result, saliency: toSaliencyMap(saliency) } : result;
+  }
+
+  private async classifyCustom(raw: Embedding): Promise<ClassificationResult | null> {
+    if (!customClassifier.hasSamples()) return null;
+
+    const embedding = this.toTensor(raw);
+    let prediction: CustomPrediction | null;
+    try {
+      prediction = await customClassifier.predict(embedding);
+    } finally {
+      embedding.dispose();
+    }
+    if (!prediction) return null;
+
+    const { customClass, confidence, similarity, sampleCount } = prediction;
+    const pack = rulePackManager.getActivePack();
+    const mapping = pack.categories.find(c => c.category === customClass.category);
+    const described = taxonomy.describe(customClass.category, pack);
+
+    return {
+      category: customClass.category,
+      confidence,
+      label: customClass.name,
+      reasoning: i18n.t('reasoning.customClass', { name: customClass.name, samples: sampleCount, similarity: i18n.percent(similarity) }),
+      ...described,
+      disposalInstructions: customClass.instructions ?? described.disposalInstructions,
+      alternatives: [],
+      binColor: mapping?.binColor,
+      dropOffNotes: mapping?.dropOffNotes
+    };
+  }
+
+  private toTensor({ data, shape }: Embedding): tf.Tensor {
+    return tf.tensor(data, shape);
+  }
+
+  private mappingContext(): MappingContext {
+    return {
+      pack: rulePackManager.getActivePack(),
+      getLearnedCategory: label => labelOverrides.get(label),
+      calibration: CALIBRATION,
+      translator: i18n.getTranslator()
+    };
+  }
+}
+
+export const mobilenetBackend = new MobileNetBackend();
@@ -0,0 +1,75 @@
+import { BatchItem } from '../types';
+import { wasteClassifier } from './wasteClassifier';
+
+export const createBatch = (files: File[]): BatchItem[] =>
+  files.map(file => ({
+    id: crypto.randomUUID(),
+    file,
+    filename: file.webkitRelativePath || file.name,
+    status: 'pending'
+  }));
+
+/**
+ * Classifies the batch one file at a time with the already-loaded model.
+ * A failing file is marked as an error and the run continues; aborting the
+ * signal marks everything not yet started as cancelled.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  onUpdate: (item: BatchItem) => void,
+  signal: AbortSignal
+): Promise<BatchItem[]> => {
+  const finished: BatchItem[] = [];
+
+  for (const item of items) {
+    if (signal.aborted) {
+      const cancelled: BatchItem = { ...item, status: 'cancelled' };
+      finished.push(cancelled);
+      onUpdate(cancelled);
+      continue;
+    }
+
+    onUpdate({ ...item, status: 'processing' });
+    let done: BatchItem;
+    try {
+      const result = await wasteClassifier.classify(item.file);
+      done = { ...item, status: 'done', result };
+    } catch (err: any) {
+      done = { ...item, status: 'error', error: err.message || 'Analysis failed.' };
+    }
+    finished.push(done);
+    onUpdate(done);
+  }
+
+  return finished;
+};
+
+const CSV_COLUMNS = ['filename', 'status', 'label', 'category', 'confidence', 'decidedBy', 'material', 'instructions', 'error'];
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toRow = (item: BatchItem) => ({
+  filename: item.filename,
+  status: item.status,
+  label: item.result?.label,
+  category: item.result?.category,
+  confidence: item.result ? Number(item.result.confidence.toFixed(4)) : undefined,
+  decidedBy: item.result?.decidedBy,
+  material: item.result?.material ? `${item.result.material.abbreviation} #${item.result.material.resinCode}` : undefined,
+  instructions: item.result?.disposalInstructions,
+  error: item.error
+});
+
+export const batchToCsv = (items: BatchItem[]): string => {
+  const rows = items.map(item => {
+    const row = toRow(item) as Record<string, string | number | undefined>;
+    return CSV_COLUMNS.map(column => csvCell(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const batchToJson = (items: BatchItem[]): string =>
+  JSON.stringify({ generatedAt: new Date().toISOString(), items: items.map(toRow) }, null, 2);
@@ -0,0 +1,97 @@
+import { WasteCategory } from '../types';
+
+export interface BenchmarkSample {
+  file: string;
+  expected: WasteCategory;
+  predicted: WasteCategory;
+  // Top ImageNet label, to see why a sample went wrong
+  label: string;
+  confidence: number;
+  // True when the result fell below the abstain threshold
+  uncertain?: boolean;
+  // Uncalibrated category scores, kept for fitting a calibration
+  scores?: Partial<Record<WasteCategory, number>>;
+}
+
+export interface CategoryMetrics {
+  category: WasteCategory;
+  // null when nothing was predicted as (or labelled) this category
+  precision: number | null;
+  recall: number | null;
+  support: number;
+}
+
+export interface BenchmarkReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  // Samples shown as uncertain, and accuracy over the ones that were answered
+  abstained: number;
+  answeredAccuracy: number | null;
+  categories: CategoryMetrics[];
+  // confusion[expected][predicted] = count
+  confusion: Record<WasteCategory, Record<WasteCategory, number>>;
+}
+
+const CATEGORIES = Object.values(WasteCategory) as WasteCategory[];
+
+const ratio = (part: number, whole: number) => (whole === 0 ? null : part / whole);
+
+export const evaluate = (samples: BenchmarkSample[]): BenchmarkReport => {
+  const confusion = Object.fromEntries(
+    CATEGORIES.map(expected => [expected, Object.fromEntries(CATEGORIES.map(predicted => [predicted, 0]))])
+  ) as BenchmarkReport['confusion'];
+
+  for (const sample of samples) {
+    confusion[sample.expected][sample.predicted]++;
+  }
+
+  const correct = samples.filter(s => s.expected === s.predicted).length;
+  const answered = samples.filter(s => !s.uncertain);
+  const categories = CATEGORIES.map(category => {
+    const truePositives = confusion[category][category];
+    const support = CATEGORIES.reduce((sum, predicted) => sum + confusion[category][predicted], 0);
+    const predictedCount = CATEGORIES.reduce((sum, expected) => sum + confusion[expected][category], 0);
+    return {
+      category,
+      precision: ratio(truePositives, predictedCount),
+      recall: ratio(truePositives, support),
+      support
+    };
+  });
+
+  return {
+    total: samples.length,
+    correct,
+    accuracy: samples.length === 0 ? 0 : correct / samples.length,
+    abstained: samples.length - answered.length,
+    answeredAccuracy: ratio(answered.filter(s => s.expected === s.predicted).length, answered.length),
+    categories,
+    confusion
+  };
+};
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+/** Plain-text report with per-category metrics and a confusion matrix (rows = expected). */
+export const formatReport = (report: BenchmarkReport): string => {
+  const lines = [`Accuracy: ${percent(report.accuracy)} (${report.correct}/${report.total})`];
+  if (report.abstained > 0) {
+    lines.push(`Uncertain: ${report.abstained} (${percent(report.abstained / report.total)}); accuracy on the rest: ${percent(report.answeredAccuracy)}`);
+  }
+  lines.push('');
+
+  lines.push(`${'Category'.padEnd(10)}${'Precision'.padStart(11)}${'Recall'.padStart(9)}${'Support'.padStart(9)}`);
+  for (const m of report.categories) {
+    lines.push(`${m.category.padEnd(10)}${percent(m.precision).padStart(11)}${percent(m.recall).padStart(9)}${String(m.support).padStart(9)}`);
+  }
+
+  lines.push('', 'Confusion matrix (rows: expected, columns: predicted)');
+  const width = Math.max(...CATEGORIES.map(c => c.length)) + 2;
+  lines.push(''.padEnd(width) + CATEGORIES.map(c => c.padStart(width)).join(''));
+  for (const expected of CATEGORIES) {
+    const row = CATEGORIES.map(predicted => String(report.confusion[expected][predicted]).padStart(width));
+    lines.push(expected.padEnd(width) + row.join(''));
+  }
+  return lines.join('\n');
+};
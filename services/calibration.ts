@@ -0,0 +1,102 @@
+import { Calibration, WasteCategory } from '../types';
+
+export interface CalibrationSample {
+  // Fused, uncalibrated category scores for one labelled photo
+  scores: Partial<Record<WasteCategory, number>>;
+  expected: WasteCategory;
+}
+
+const CATEGORIES = Object.values(WasteCategory) as WasteCategory[];
+
+// Geometric grid from 0.25 to about 4, plus 1 itself, searched for each temperature
+const TEMPERATURE_GRID = [1, ...Array.from({ length: 30 }, (_, i) => Number((0.25 * Math.pow(1.1, i)).toFixed(3)))];
+const FIT_PASSES = 3;
+const MIN_PROBABILITY = 1e-6;
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+export const validateCalibration = (raw: unknown): Calibration => {
+  const temperatures = (raw as Calibration | null)?.temperatures;
+  if (!temperatures || typeof temperatures !== 'object') {
+    throw new CalibrationError('Calibration needs a "temperatures" object.');
+  }
+  for (const [category, value] of Object.entries(temperatures)) {
+    if (!CATEGORIES.includes(category as WasteCategory)) {
+      throw new CalibrationError(`Unknown category "${category}" in calibration.`);
+    }
+    if (typeof value !== 'number' || !(value > 0)) {
+      throw new CalibrationError(`Temperature for ${category} must be a positive number.`);
+    }
+  }
+  return raw as Calibration;
+};
+
+/**
+ * Temperature-scales fused category scores. The scores are treated as a
+ * distribution whose remainder (predictions no keyword claimed) belongs to
+ * Unknown; each share is raised to 1/T and the whole renormalised, so an
+ * empty calibration returns the scores unchanged.
+ */
+export const calibrateScores = (scores: Map<WasteCategory, number>, calibration: Calibration): Map<WasteCategory, number> => {
+  const { temperatures } = calibration;
+  if (Object.keys(temperatures).length === 0) return scores;
+
+  const claimed = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+  const shares = new Map(scores);
+  shares.set(WasteCategory.UNKNOWN, (shares.get(WasteCategory.UNKNOWN) ?? 0) + Math.max(0, 1 - claimed));
+
+  const scaled = new Map<WasteCategory, number>();
+  let total = 0;
+  for (const [category, share] of shares) {
+    const value = share > 0 ? Math.pow(share, 1 / (temperatures[category] ?? 1)) : 0;
+    scaled.set(category, value);
+    total += value;
+  }
+  if (total === 0) return scores;
+
+  return new Map(Array.from(scores.keys()).map(category => [category, scaled.get(category)! / total]));
+};
+
+const expectedProbability = (sample: CalibrationSample, calibration: Calibration): number => {
+  const scores = new Map(Object.entries(sample.scores) as [WasteCategory, number][]);
+  const calibrated = calibrateScores(scores, calibration);
+  if (sample.expected !== WasteCategory.UNKNOWN) return calibrated.get(sample.expected) ?? 0;
+  // Unknown is whatever the matched categories leave over
+  return 1 - Array.from(calibrated.values()).reduce((sum, p) => sum + p, 0);
+};
+
+/** Mean negative log-likelihood of the expected categories; lower is better calibrated. */
+export const negativeLogLikelihood = (samples: CalibrationSample[], calibration: Calibration): number => {
+  if (samples.length === 0) return 0;
+  const total = samples.reduce((sum, sample) => sum - Math.log(Math.max(MIN_PROBABILITY, expectedProbability(sample, calibration))), 0);
+  return total / samples.length;
+};
+
+/**
+ * Fits one temperature per category by coordinate descent on the
+ * negative log-likelihood, searching a fixed grid for each in turn.
+ */
+export const fitCalibration = (samples: CalibrationSample[]): Calibration => {
+  if (samples.length === 0) {
+    throw new CalibrationError('Calibration needs at least one labelled sample.');
+  }
+
+  const temperatures: Partial<Record<WasteCategory, number>> = {};
+  for (let pass = 0; pass < FIT_PASSES; pass++) {
+    for (const category of CATEGORIES) {
+      let best = { temperature: temperatures[category] ?? 1, loss: Infinity };
+      for (const temperature of TEMPERATURE_GRID) {
+        const loss = negativeLogLikelihood(samples, { temperatures: { ...temperatures, [category]: temperature } });
+        if (loss < best.loss) best = { temperature, loss };
+      }
+      temperatures[category] = best.temperature;
+    }
+  }
+
+  return { temperatures, fittedOn: { samples: samples.length, date: new Date().toISOString().slice(0, 10) } };
+};
@@ -0,0 +1,132 @@
+import { BoundingBox } from '../types';
+import { CAMERA_ROI_SIZE, SNAPSHOT_QUALITY } from '../constants';
+import { i18n } from './i18n';
+
+// Torch, zoom and points of interest are not in TypeScript's DOM typings yet
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+interface ImageCaptureLike {
+  takePhoto(): Promise<Blob>;
+}
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCaptureLike;
+
+export type CameraErrorKind = 'permission-denied' | 'no-device' | 'device-busy' | 'unsupported' | 'unknown';
+
+export interface CameraControls {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number } | null;
+  focus: boolean;
+}
+
+/** Maps a getUserMedia failure to the recovery advice the user needs. */
+export const getCameraErrorKind = (err: unknown): CameraErrorKind => {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permission-denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'no-device';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'device-busy';
+    case 'TypeError':
+      return 'unsupported';
+    default:
+      return 'unknown';
+  }
+};
+
+export const getCameraErrorGuidance = (kind: CameraErrorKind) => ({
+  title: i18n.t(`camera.error.${kind}.title`),
+  message: i18n.t(`camera.error.${kind}.message`)
+});
+
+export const canUseCamera = (): boolean => !!navigator.mediaDevices?.getUserMedia;
+
+/** Video inputs; labels are only filled in once permission has been granted. */
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const getControls = (track: MediaStreamTrack): CameraControls => {
+  // Firefox has no getCapabilities at all
+  const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  const { zoom } = capabilities;
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom && zoom.max > zoom.min ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } : null,
+    focus: !!capabilities.pointsOfInterest || !!capabilities.focusMode?.includes('single-shot')
+  };
+};
+
+const applyAdvanced = (track: MediaStreamTrack, constraints: ExtendedConstraintSet) =>
+  track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) => applyAdvanced(track, { torch: on });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+/** Focuses on a point given as fractions of the frame; ignored where unsupported. */
+export const focusAt = async (track: MediaStreamTrack, x: number, y: number): Promise<void> => {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  const constraints: ExtendedConstraintSet = {};
+  if (capabilities.pointsOfInterest) constraints.pointsOfInterest = [{ x, y }];
+  if (capabilities.focusMode?.includes('single-shot')) constraints.focusMode = 'single-shot';
+  if (Object.keys(constraints).length > 0) await applyAdvanced(track, constraints);
+};
+
+/** A square region centred on the point, kept inside the frame. */
+export const regionAround = (point: { x: number; y: number }, width: number, height: number): BoundingBox => {
+  const size = Math.round(Math.min(width, height) * CAMERA_ROI_SIZE);
+  return {
+    x: Math.min(Math.max(0, point.x - size / 2), width - size),
+    y: Math.min(Math.max(0, point.y - size / 2), height - size),
+    width: size,
+    height: size
+  };
+};
+
+/** Copies the region of the current frame into the canvas, resizing it to fit. */
+export const drawRegion = (video: HTMLVideoElement, region: BoundingBox, canvas: HTMLCanvasElement): HTMLCanvasElement => {
+  canvas.width = Math.max(1, Math.round(region.width));
+  canvas.height = Math.max(1, Math.round(region.height));
+  canvas.getContext('2d')!.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * A still photo from the camera. ImageCapture gives the sensor's full
+ * resolution where supported; otherwise the current video frame is used.
+ */
+export const takeSnapshot = async (video: HTMLVideoElement, track: MediaStreamTrack | null): Promise<File> => {
+  const name = `snapshot-${new Date().toISOString().replace(/[:.]/g, '-')}.jpg`;
+  const ImageCapture = (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture;
+
+  if (ImageCapture && track) {
+    try {
+      const photo = await new ImageCapture(track).takePhoto();
+      return new File([photo], name, { type: photo.type || 'image/jpeg' });
+    } catch (err) {
+      console.warn('Full-resolution capture failed, using the video frame:', err);
+    }
+  }
+
+  const canvas = drawRegion(video, { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight }, document.createElement('canvas'));
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', SNAPSHOT_QUALITY));
+  if (!blob) throw new Error(i18n.t('camera.error.snapshot'));
+  return new File([blob], name, { type: 'image/jpeg' });
+};
@@ -0,0 +1,176 @@
+import * as tf from '@tensorflow/tfjs';
+import * as knnClassifier from '@tensorflow-models/knn-classifier';
+import { CustomClass, CustomClassSummary, WasteCategory } from '../types';
+import {
+  CUSTOM_CLASSIFIER_K,
+  CUSTOM_HEAD_FORMAT,
+  CUSTOM_HEAD_VERSION,
+  CUSTOM_MIN_CONFIDENCE,
+  CUSTOM_MIN_SIMILARITY
+} from '../constants';
+import { SerializedHead, validateCustomHead } from './customHeadSchema';
+import * as db from './db';
+import { i18n } from './i18n';
+
+const STORE = 'customHeads';
+const HEAD_ID = 'default';
+
+export interface CustomPrediction {
+  customClass: CustomClass;
+  confidence: number;
+  similarity: number;
+  sampleCount: number;
+}
+
+type Listener = () => void;
+
+/**
+ * A KNN head over MobileNet embeddings for waste types ImageNet doesn't
+ * cover. Callers pass in embeddings; the head never touches the base model.
+ */
+class CustomClassifier {
+  private knn = knnClassifier.create();
+  private classes: CustomClass[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+
+  /** Restores the saved head from IndexedDB. Safe to call repeatedly. */
+  public load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = db.getOne<SerializedHead & { id: string }>(STORE, HEAD_ID)
+        .then(saved => {
+          if (saved) this.restore(saved);
+        })
+        .catch(err => console.warn('Could not restore custom classes:', err));
+    }
+    return this.loadPromise;
+  }
+
+  public getClasses(): CustomClassSummary[] {
+    const counts = this.knn.getClassExampleCount();
+    return this.classes.map(c => ({ ...c, sampleCount: counts[c.id] ?? 0 }));
+  }
+
+  public hasSamples(): boolean {
+    return this.knn.getNumClasses() > 0;
+  }
+
+  /** Length of the stored embeddings, which depends on the model profile they came from. */
+  public getEmbeddingSize(): number | null {
+    const [first] = Object.values(this.knn.getClassifierDataset());
+    return first ? first.shape[1] : null;
+  }
+
+  public async addClass(name: string, category: WasteCategory, instructions?: string): Promise<CustomClass> {
+    const customClass: CustomClass = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      category,
+      instructions: instructions?.trim() || undefined
+    };
+    this.classes = [...this.classes, customClass];
+    await this.save();
+    return customClass;
+  }
+
+  public async removeClass(id: string): Promise<void> {
+    if (this.knn.getClassExampleCount()[id]) {
+      this.knn.clearClass(id);
+    }
+    this.classes = this.classes.filter(c => c.id !== id);
+    await this.save();
+  }
+
+  /** Adds one training sample. The caller keeps ownership of `embedding`. */
+  public async addSample(classId: string, embedding: tf.Tensor): Promise<void> {
+    if (!this.classes.some(c => c.id === classId)) {
+      throw new Error(i18n.t('trainer.error.missingClass'));
+    }
+    const size = this.getEmbeddingSize();
+    if (size !== null && size !== embedding.size) {
+      throw new Error(i18n.t('trainer.error.profile'));
+    }
+    this.knn.addExample(embedding, classId);
+    await this.save();
+  }
+
+  /**
+   * Returns the best custom class for an embedding, or null when no class is
+   * both the KNN winner and close enough to one of its stored samples.
+   */
+  public async predict(embedding: tf.Tensor): Promise<CustomPrediction | null> {
+    // Samples from another model profile can't be compared with this embedding
+    if (!this.hasSamples() || this.getEmbeddingSize() !== embedding.size) return null;
+
+    const { label, confidences } = await this.knn.predictClass(embedding, CUSTOM_CLASSIFIER_K);
+    const customClass = this.classes.find(c => c.id === label);
+    const confidence = confidences[label] ?? 0;
+    if (!customClass || confidence < CUSTOM_MIN_CONFIDENCE) return null;
+
+    // KNN always picks some class, so also require the input to resemble it
+    const samples = this.knn.getClassifierDataset()[label];
+    const similarityTensor = tf.tidy(() => {
+      const query = tf.reshape(embedding, [embedding.size]);
+      const unit = tf.div(query, tf.norm(query));
+      return tf.max(tf.matMul(samples, tf.reshape(unit, [-1, 1])));
+    });
+    const similarity = (await similarityTensor.data())[0];
+    similarityTensor.dispose();
+
+    if (similarity < CUSTOM_MIN_SIMILARITY) return null;
+    return { customClass, confidence, similarity, sampleCount: this.knn.getClassExampleCount()[label] };
+  }
+
+  public async export(): Promise<string> {
+    return JSON.stringify(await this.serialize());
+  }
+
+  /** Replaces the current head with one from an exported file. */
+  public async import(json: string): Promise<void> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error(i18n.t('trainer.error.json'));
+    }
+    this.restore(validateCustomHead(raw, i18n.getTranslator()));
+    await this.save();
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async serialize(): Promise<SerializedHead> {
+    const samples: SerializedHead['samples'] = {};
+    for (const [label, matrix] of Object.entries(this.knn.getClassifierDataset())) {
+      samples[label] = { shape: matrix.shape, data: Array.from(await matrix.data()) };
+    }
+    return { format: CUSTOM_HEAD_FORMAT, version: CUSTOM_HEAD_VERSION, classes: this.classes, samples };
+  }
+
+  private restore(head: SerializedHead): void {
+    this.knn.clearAllClasses();
+    const dataset: Record<string, tf.Tensor2D> = {};
+    for (const [label, { shape, data }] of Object.entries(head.samples)) {
+      dataset[label] = tf.tensor2d(data, shape);
+    }
+    if (Object.keys(dataset).length > 0) {
+      this.knn.setClassifierDataset(dataset);
+    }
+    this.classes = head.classes;
+    this.notify();
+  }
+
+  private async save(): Promise<void> {
+    this.notify();
+    await db.put(STORE, { id: HEAD_ID, ...(await this.serialize()) });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const customClassifier = new CustomClassifier();
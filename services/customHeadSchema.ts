@@ -0,0 +1,82 @@
+import { CustomClass, WasteCategory } from '../types';
+import { CUSTOM_HEAD_FORMAT, CUSTOM_HEAD_VERSION } from '../constants';
+import { defaultTranslator, Translator } from './translator';
+
+export class CustomHeadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomHeadError';
+  }
+}
+
+// Unlike rule packs, Unknown stays valid: the trainer offers it for items whose bin depends on the place
+const VALID_CATEGORIES = Object.values(WasteCategory) as string[];
+
+export interface SerializedHead {
+  format: string;
+  version: number;
+  classes: CustomClass[];
+  samples: Record<string, { shape: [number, number]; data: number[] }>;
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+const validateClass = (raw: unknown, t: Translator['t']): CustomClass => {
+  if (!isPlainObject(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name) ||
+    typeof raw.category !== 'string' || !VALID_CATEGORIES.includes(raw.category) ||
+    (raw.instructions !== undefined && typeof raw.instructions !== 'string')) {
+    throw new CustomHeadError(t('trainer.error.class'));
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    category: raw.category as WasteCategory,
+    instructions: (raw.instructions as string | undefined) || undefined
+  };
+};
+
+/**
+ * Checks an untrusted custom classifier export and returns a typed copy.
+ * Sample values must all be finite numbers, since they become KNN tensors as-is.
+ */
+export const validateCustomHead = (raw: unknown, translator: Translator = defaultTranslator): SerializedHead => {
+  const { t } = translator;
+  if (!isPlainObject(raw) || raw.format !== CUSTOM_HEAD_FORMAT) {
+    throw new CustomHeadError(t('trainer.error.format'));
+  }
+  if (raw.version !== CUSTOM_HEAD_VERSION) {
+    throw new CustomHeadError(t('trainer.error.version', { version: String(raw.version) }));
+  }
+  if (!Array.isArray(raw.classes) || !isPlainObject(raw.samples)) {
+    throw new CustomHeadError(t('trainer.error.incomplete'));
+  }
+
+  const classes = raw.classes.map(entry => validateClass(entry, t));
+  const ids = new Set(classes.map(c => c.id));
+  if (ids.size !== classes.length) {
+    throw new CustomHeadError(t('trainer.error.class'));
+  }
+
+  let width: number | null = null;
+  const samples: SerializedHead['samples'] = {};
+  for (const [label, sample] of Object.entries(raw.samples)) {
+    const shape = isPlainObject(sample) && Array.isArray(sample.shape) ? sample.shape : [];
+    const data = isPlainObject(sample) && Array.isArray(sample.data) ? sample.data : [];
+    const [rows, columns] = shape;
+    const valid = ids.has(label) && shape.length === 2 && isPositiveInteger(rows) && isPositiveInteger(columns) &&
+      data.length === rows * columns && data.every(Number.isFinite) && (width === null || columns === width);
+    if (!valid) {
+      throw new CustomHeadError(t('trainer.error.samples'));
+    }
+    width = columns;
+    samples[label] = { shape: [rows, columns], data: data as number[] };
+  }
+  return { format: CUSTOM_HEAD_FORMAT, version: CUSTOM_HEAD_VERSION, classes, samples };
+};
@@ -0,0 +1,84 @@
+import { DB_NAME, DB_VERSION, DB_STORES } from '../constants';
+import { i18n } from './i18n';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the app's on-device IndexedDB database, creating any object store
+ * listed in DB_STORES that doesn't exist yet. Nothing here leaves the browser.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const opened: Promise<IDBDatabase> = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error(i18n.t('storage.error.unavailable')));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, keyPath] of Object.entries(DB_STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        }
+      };
+      // Another tab still holds the previous version open, so the upgrade can't run yet
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error(i18n.t('storage.error.blocked')));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The caller already got the blocked error; the next call reopens the upgraded database
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer tab needs to upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          if (dbPromise === opened) dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(i18n.t('storage.error.open')));
+      };
+    });
+    dbPromise = opened;
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(store: string, mode: IDBTransactionMode, run: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const getAll = <T>(store: string): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(store: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+
+export const put = async <T>(store: string, value: T): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value));
+};
+
+export const remove = async (store: string, key: IDBValidKey): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const clear = async (store: string): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.clear());
+};
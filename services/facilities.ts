@@ -0,0 +1,189 @@
+import { Facility, FacilityDataset, FacilityOrigin, GeoPoint, NearbyFacility, WasteCategory } from '../types';
+import { BUNDLED_FACILITIES, FACILITY_RESULT_LIMIT, GEOLOCATION_TIMEOUT_MS, STORAGE_KEYS } from '../constants';
+import { FacilityError, isWebUrl, normalizePostcode, validateFacilityDataset } from './facilitySchema';
+import { i18n } from './i18n';
+
+export { FacilityError, validateFacilityDataset };
+
+type Listener = () => void;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance; plenty accurate for "which one is closer". */
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+const sharedPrefix = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+/**
+ * Facilities that accept the category, nearest first. Without coordinates for
+ * the origin, postcodes sharing the most leading characters come first, which
+ * follows how most postal systems group neighbouring areas.
+ */
+export const rankFacilities = (facilities: Facility[], category: WasteCategory, origin: FacilityOrigin, limit: number): NearbyFacility[] => {
+  const accepting = facilities.filter(facility => facility.accepts.includes(category));
+  const { point } = origin;
+
+  if (point) {
+    return accepting
+      .map(facility => ({ facility, distanceKm: distanceKm(point, facility.location) }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, limit);
+  }
+
+  const postcode = origin.kind === 'postcode' ? origin.postcode : '';
+  return accepting
+    .map(facility => ({ facility, score: sharedPrefix(postcode, facility.postcode ?? '') }))
+    .sort((a, b) => b.score - a.score || a.facility.name.localeCompare(b.facility.name))
+    .slice(0, limit)
+    .map(({ facility }) => ({ facility }));
+};
+
+const geolocationMessage = (err: GeolocationPositionError) =>
+  i18n.t(err.code === err.PERMISSION_DENIED ? 'facilities.error.denied' : 'facilities.error.unavailable');
+
+/**
+ * Drop-off points for the result card. Uses the bundled sample dataset until
+ * a municipality's GeoJSON file is imported. A typed postcode is remembered;
+ * the device's position only lives for the session.
+ */
+class FacilityDirectory {
+  private bundled: FacilityDataset;
+  private custom: FacilityDataset | null = null;
+  private origin: FacilityOrigin | null = null;
+  private loadError: string | null = null;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    this.bundled = validateFacilityDataset(BUNDLED_FACILITIES);
+    this.custom = this.readCustomDataset();
+
+    const postcode = localStorage.getItem(STORAGE_KEYS.facilityPostcode);
+    if (postcode) this.origin = this.postcodeOrigin(postcode);
+  }
+
+  public getDataset(): FacilityDataset {
+    return this.custom ?? this.bundled;
+  }
+
+  public isCustom(): boolean {
+    return this.custom !== null;
+  }
+
+  public getLoadError(): string | null {
+    return this.loadError;
+  }
+
+  public getOrigin(): FacilityOrigin | null {
+    return this.origin;
+  }
+
+  public findNearby(category: WasteCategory, limit: number = FACILITY_RESULT_LIMIT): NearbyFacility[] {
+    return this.origin ? rankFacilities(this.getDataset().facilities, category, this.origin, limit) : [];
+  }
+
+  /** Asks the browser for the current position. Rejects with a message the user can act on. */
+  public async locateDevice(): Promise<void> {
+    if (!navigator.geolocation) {
+      throw new FacilityError(i18n.t('facilities.error.unsupported'));
+    }
+    const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, err => reject(new FacilityError(geolocationMessage(err))), {
+        timeout: GEOLOCATION_TIMEOUT_MS,
+        // A cached fix is fine; facilities are kilometres apart
+        maximumAge: 10 * 60 * 1000
+      });
+    });
+    this.origin = { kind: 'device', point: { lat: position.coords.latitude, lon: position.coords.longitude } };
+    this.notify();
+  }
+
+  public setPostcode(postcode: string): void {
+    const normalized = normalizePostcode(postcode);
+    if (!normalized) return;
+    localStorage.setItem(STORAGE_KEYS.facilityPostcode, normalized);
+    this.origin = this.postcodeOrigin(normalized);
+    this.notify();
+  }
+
+  public clearOrigin(): void {
+    localStorage.removeItem(STORAGE_KEYS.facilityPostcode);
+    this.origin = null;
+    this.notify();
+  }
+
+  /** Validates and installs a GeoJSON dataset in place of the current one. */
+  public importDataset(json: string): FacilityDataset {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new FacilityError(i18n.t('facilities.error.json'));
+    }
+
+    const dataset = validateFacilityDataset(raw, i18n.getTranslator());
+    this.custom = dataset;
+    this.loadError = null;
+    // Stored as validated so the next start doesn't re-check the raw file
+    localStorage.setItem(STORAGE_KEYS.customFacilities, JSON.stringify(dataset));
+    this.refreshOrigin();
+    this.notify();
+    return dataset;
+  }
+
+  public resetDataset(): void {
+    this.custom = null;
+    localStorage.removeItem(STORAGE_KEYS.customFacilities);
+    this.refreshOrigin();
+    this.notify();
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private postcodeOrigin(postcode: string): FacilityOrigin {
+    return { kind: 'postcode', postcode, point: this.getDataset().postcodes[postcode] };
+  }
+
+  // Postcode centroids come from the dataset, so they change with it
+  private refreshOrigin(): void {
+    if (this.origin?.kind === 'postcode') this.origin = this.postcodeOrigin(this.origin.postcode);
+  }
+
+  private readCustomDataset(): FacilityDataset | null {
+    const stored = localStorage.getItem(STORAGE_KEYS.customFacilities);
+    if (!stored) return null;
+
+    try {
+      const parsed = JSON.parse(stored) as FacilityDataset;
+      if (!Array.isArray(parsed.facilities) || !parsed.postcodes) throw new Error('Unexpected shape');
+      // Storage may predate the website check or have been edited by hand
+      return {
+        ...parsed,
+        facilities: parsed.facilities.map(facility =>
+          facility.website && !isWebUrl(facility.website) ? { ...facility, website: undefined } : facility)
+      };
+    } catch {
+      this.loadError = i18n.t('facilities.error.corrupted');
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const facilityDirectory = new FacilityDirectory();
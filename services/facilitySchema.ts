@@ -0,0 +1,125 @@
+import { Facility, FacilityDataset, GeoPoint, WasteCategory } from '../types';
+import { defaultTranslator, Translator } from './translator';
+
+export class FacilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FacilityError';
+  }
+}
+
+const VALID_CATEGORIES = Object.values(WasteCategory).filter(c => c !== WasteCategory.UNKNOWN) as string[];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalText = (where: string, field: string, value: unknown, t: Translator['t']): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new FacilityError(t('facilities.error.text', { where, field }));
+  }
+  return value.trim() || undefined;
+};
+
+const WEB_PROTOCOLS = ['http:', 'https:'];
+
+/** Only http(s) links are rendered; a javascript: or data: URL in a shared file would run in the app. */
+export const isWebUrl = (value: string): boolean => {
+  try {
+    return WEB_PROTOCOLS.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** GeoJSON positions are [longitude, latitude]. */
+const toPoint = (where: string, value: unknown, t: Translator['t']): GeoPoint => {
+  if (!Array.isArray(value) || value.length < 2 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    throw new FacilityError(t('facilities.error.point', { where }));
+  }
+  const [lon, lat] = value as number[];
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+    throw new FacilityError(t('facilities.error.pointRange', { where, lon, lat }));
+  }
+  return { lat, lon };
+};
+
+/** Postcodes are compared without spaces and case, so "sw1a 1aa" finds "SW1A 1AA". */
+export const normalizePostcode = (postcode: string): string => postcode.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Checks an untrusted GeoJSON FeatureCollection of drop-off points and returns
+ * it typed. Throws a FacilityError describing the first problem found, in
+ * the translator's language.
+ */
+export const validateFacilityDataset = (raw: unknown, translator: Translator = defaultTranslator): FacilityDataset => {
+  const { t } = translator;
+  if (!isPlainObject(raw) || raw.type !== 'FeatureCollection' || !Array.isArray(raw.features)) {
+    throw new FacilityError(t('facilities.error.collection'));
+  }
+  if (raw.features.length === 0) {
+    throw new FacilityError(t('facilities.error.empty'));
+  }
+
+  const seen = new Set<string>();
+  const facilities: Facility[] = raw.features.map((feature, index) => {
+    const where = `features[${index}]`;
+    if (!isPlainObject(feature) || feature.type !== 'Feature' || !isPlainObject(feature.properties)) {
+      throw new FacilityError(t('facilities.error.feature', { where }));
+    }
+    const geometry = feature.geometry;
+    if (!isPlainObject(geometry) || geometry.type !== 'Point') {
+      throw new FacilityError(t('facilities.error.geometry', { where }));
+    }
+
+    const props = feature.properties;
+    if (!isNonEmptyString(props.name)) {
+      throw new FacilityError(t('facilities.error.name', { where }));
+    }
+    if (!isNonEmptyString(props.address)) {
+      throw new FacilityError(t('facilities.error.address', { where, name: props.name }));
+    }
+    if (!Array.isArray(props.accepts) || props.accepts.length === 0 || !props.accepts.every(c => VALID_CATEGORIES.includes(c))) {
+      throw new FacilityError(t('facilities.error.accepts', { where, name: props.name, categories: VALID_CATEGORIES.join(', ') }));
+    }
+
+    const rawId = feature.id ?? props.id;
+    const id = typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId) : `facility-${index}`;
+    if (seen.has(id)) {
+      throw new FacilityError(t('facilities.error.duplicateId', { where, id }));
+    }
+    seen.add(id);
+
+    const postcode = optionalText(where, 'postcode', props.postcode, t);
+    const website = optionalText(where, 'website', props.website, t);
+    if (website && !isWebUrl(website)) {
+      throw new FacilityError(t('facilities.error.website', { where, name: props.name }));
+    }
+    return {
+      id,
+      name: props.name.trim(),
+      address: props.address.trim(),
+      location: toPoint(`${where}.geometry.coordinates`, geometry.coordinates, t),
+      accepts: props.accepts as WasteCategory[],
+      postcode: postcode && normalizePostcode(postcode),
+      hours: optionalText(where, 'hours', props.hours, t),
+      website
+    };
+  });
+
+  if (raw.postcodes !== undefined && !isPlainObject(raw.postcodes)) {
+    throw new FacilityError(t('facilities.error.postcodes'));
+  }
+  const postcodes = Object.fromEntries(Object.entries(raw.postcodes ?? {}).map(([postcode, position]) =>
+    [normalizePostcode(postcode), toPoint(`postcodes.${postcode}`, position, t)]
+  ));
+
+  return {
+    name: isNonEmptyString(raw.name) ? raw.name.trim() : 'Imported drop-off points',
+    facilities,
+    postcodes
+  };
+};
@@ -0,0 +1,74 @@
+import { ClassificationResult, DetectionResult, WasteCategory } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { keywordPattern } from './taxonomy';
+import { Translator } from './translator';
+
+export type VoiceCommand =
+  | { type: 'mode'; mode: 'live' | 'upload' | 'history' }
+  | { type: 'repeat' }
+  | { type: 'correct'; category: WasteCategory }
+  | { type: 'silence' };
+
+export const loadHandsFree = (): boolean => localStorage.getItem(STORAGE_KEYS.handsFree) === 'on';
+
+export const saveHandsFree = (enabled: boolean): void => {
+  localStorage.setItem(STORAGE_KEYS.handsFree, enabled ? 'on' : 'off');
+};
+
+const CATEGORIES = (Object.values(WasteCategory) as WasteCategory[]).filter(c => c !== WasteCategory.UNKNOWN);
+
+// Recognisers add punctuation and capitals ("Wrong, it's glass."), which the phrases don't have
+const normalize = (text: string, locale: string) =>
+  text.toLocaleLowerCase(locale).replace(/[^\p{L}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const mentionsAny = (text: string, phrases: string[]) => phrases.some(phrase => phrase && keywordPattern(phrase).test(text));
+
+/**
+ * Maps a recognised utterance to a command. Each command's phrases are a
+ * `|`-separated list in the locale bundle, so every language has its own.
+ * A correction names the category, in the UI language or in English.
+ */
+export const parseVoiceCommand = (transcript: string, translator: Translator): VoiceCommand | null => {
+  const { t, locale } = translator;
+  const text = normalize(transcript, locale);
+  const phrases = (key: string) => t(key).split('|').map(phrase => normalize(phrase, locale));
+  if (!text) return null;
+
+  if (mentionsAny(text, phrases('voice.command.wrong'))) {
+    const category = CATEGORIES.find(c => mentionsAny(text, [normalize(translator.category(c), locale), normalize(c, locale)]));
+    return category ? { type: 'correct', category } : null;
+  }
+  if (mentionsAny(text, phrases('voice.command.repeat'))) return { type: 'repeat' };
+  if (mentionsAny(text, phrases('voice.command.upload'))) return { type: 'mode', mode: 'upload' };
+  if (mentionsAny(text, phrases('voice.command.history'))) return { type: 'mode', mode: 'history' };
+  if (mentionsAny(text, phrases('voice.command.scan'))) return { type: 'mode', mode: 'live' };
+  if (mentionsAny(text, phrases('voice.command.stop'))) return { type: 'silence' };
+  return null;
+};
+
+/** One result as a sentence to read aloud or put in a live region; hazards come first. */
+export const describeResult = (result: ClassificationResult, translator: Translator): string => {
+  const { t, category, hazard } = translator;
+  const warning = result.hazards?.length
+    ? t('speech.hazard', { names: result.hazards.map(flag => hazard(flag).title).join(', ') }) + ' '
+    : '';
+
+  if (result.uncertain) {
+    const [first, second] = result.uncertain;
+    return warning + (second
+      ? t('speech.uncertain', { first: category(first.category), second: category(second.category) })
+      : t('speech.result', { label: result.label, category: category(first.category), instructions: first.disposalInstructions }));
+  }
+  if (result.category === WasteCategory.UNKNOWN) {
+    return warning + t('speech.unknown', { instructions: result.disposalInstructions });
+  }
+  return warning + t('speech.result', { label: result.label, category: category(result.category), instructions: result.disposalInstructions });
+};
+
+/** Multi-object results, numbered like their boxes. */
+export const describeDetections = (detections: DetectionResult[], translator: Translator): string => {
+  if (detections.length === 0) return translator.t('speech.nothingFound');
+  const items = detections.map((detection, index) =>
+    translator.t('speech.item', { index: index + 1, label: detection.label, category: translator.category(detection.category) }));
+  return [translator.t('speech.found', { count: detections.length }), ...items].join(' ');
+};
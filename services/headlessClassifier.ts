@@ -0,0 +1,50 @@
+import * as tf from '@tensorflow/tfjs';
+import * as mobilenet from '@tensorflow-models/mobilenet';
+import { Calibration, ClassificationResult, Prediction, RulePack, WasteCategory } from '../types';
+import { TOP_K_PREDICTIONS } from '../constants';
+import { getCategoryScores, mapPredictionsToWaste, withAbstention } from './labelMapping';
+
+export interface HeadlessClassifierOptions {
+  pack: RulePack;
+  // A local copy of the MobileNet v2 graph model; downloaded when omitted
+  modelUrl?: string | tf.io.IOHandler;
+  calibration?: Calibration;
+  // Marks results below this confidence as uncertain, as the app does
+  abstainThreshold?: number;
+}
+
+export interface HeadlessClassification {
+  result: ClassificationResult;
+  predictions: Prediction[];
+  // Uncalibrated category scores
+  scores: Partial<Record<WasteCategory, number>>;
+}
+
+export interface HeadlessClassifier {
+  classify(image: tf.Tensor3D): Promise<HeadlessClassification>;
+}
+
+/**
+ * MobileNet plus the rule-pack mapping with no DOM, storage or user state,
+ * so it runs under Node. Learned corrections and custom classes are left out
+ * on purpose: benchmarks should measure the shipped mapping only.
+ */
+export const createHeadlessClassifier = async ({ pack, modelUrl, calibration, abstainThreshold }: HeadlessClassifierOptions): Promise<HeadlessClassifier> => {
+  await tf.ready();
+  const model = modelUrl
+    ? await mobilenet.load({ version: 2, alpha: 1.0, modelUrl, inputRange: [0, 1] })
+    : await mobilenet.load({ version: 2, alpha: 1.0 });
+
+  return {
+    async classify(image) {
+      const predictions = await model.classify(image, TOP_K_PREDICTIONS);
+      const context = { pack, calibration };
+      const result = mapPredictionsToWaste(predictions, context);
+      return {
+        result: abstainThreshold === undefined ? result : withAbstention(result, abstainThreshold, pack),
+        predictions,
+        scores: Object.fromEntries(getCategoryScores(predictions, context))
+      };
+    }
+  };
+};
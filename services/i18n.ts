@@ -0,0 +1,88 @@
+import { HazardFlag, TaxonomyTranslation, WasteCategory } from '../types';
+import { DEFAULT_LOCALE, LOCALE_BUNDLES, STORAGE_KEYS } from '../constants';
+import { createTranslator, matchLocale, TranslationParams, Translator } from './translator';
+import { taxonomy } from './taxonomy';
+
+type Listener = (translator: Translator) => void;
+
+export interface LocaleOption {
+  code: string;
+  name: string;
+}
+
+/**
+ * The UI language. Starts from the saved choice or the browser's preferred
+ * languages and keeps the shared taxonomy's names and keywords in step.
+ */
+class I18n {
+  private translator: Translator;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    const stored = localStorage.getItem(STORAGE_KEYS.locale);
+    const locale = stored && LOCALE_BUNDLES[stored]
+      ? stored
+      : matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language ?? DEFAULT_LOCALE]);
+    this.translator = createTranslator(locale);
+    this.apply();
+  }
+
+  public getLocale(): string {
+    return this.translator.locale;
+  }
+
+  /** The active language's own name, e.g. "Deutsch". */
+  public getLanguageName(): string {
+    return LOCALE_BUNDLES[this.getLocale()].name;
+  }
+
+  public getLocales(): LocaleOption[] {
+    return Object.entries(LOCALE_BUNDLES).map(([code, bundle]) => ({ code, name: bundle.name }));
+  }
+
+  public setLocale(locale: string): void {
+    if (!LOCALE_BUNDLES[locale] || locale === this.getLocale()) return;
+    this.translator = createTranslator(locale);
+    localStorage.setItem(STORAGE_KEYS.locale, locale);
+    this.apply();
+    this.listeners.forEach(listener => listener(this.translator));
+  }
+
+  public getTranslator(): Translator {
+    return this.translator;
+  }
+
+  public t(key: string, params?: TranslationParams): string {
+    return this.translator.t(key, params);
+  }
+
+  public category(category: WasteCategory): string {
+    return this.translator.category(category);
+  }
+
+  public hazard(hazard: HazardFlag): { title: string; message: string } {
+    return this.translator.hazard(hazard);
+  }
+
+  public percent(value: number): string {
+    return this.translator.percent(value);
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private apply(): void {
+    const locale = this.getLocale();
+    document.documentElement.lang = locale;
+
+    // Category roots take their names from the UI strings so both stay in step
+    const roots: Record<string, TaxonomyTranslation> = Object.fromEntries(
+      (Object.values(WasteCategory) as WasteCategory[]).map(category => [category.toLowerCase(), { name: this.category(category) }])
+    );
+    taxonomy.setTranslations({ ...roots, ...LOCALE_BUNDLES[locale].taxonomy });
+  }
+}
+
+export const i18n = new I18n();
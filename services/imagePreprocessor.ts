@@ -0,0 +1,200 @@
+import { BoundingBox, CropBox } from '../types';
+import { IMAGE_HEADER_BYTES, PREPROCESS_MAX_SIZE } from '../constants';
+import { i18n } from './i18n';
+
+interface ImageHeader {
+  // Stored size, before EXIF orientation is applied
+  width: number;
+  height: number;
+  // EXIF orientation 1-8; 5-8 swap width and height. HEIF rotations map onto it
+  orientation: number;
+}
+
+export interface PreparedImage {
+  canvas: HTMLCanvasElement;
+  // Maps a box on the canvas back to pixels of the original upright photo
+  toOriginal: (box: BoundingBox) => BoundingBox;
+  // And the reverse, e.g. for a detection box reported in the photo's pixels
+  fromOriginal: (box: BoundingBox) => BoundingBox;
+}
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const readExifOrientation = (view: DataView, start: number): number => {
+  // "Exif\0\0" followed by a TIFF header
+  if (view.getUint32(start) !== 0x45786966) return 1;
+  const tiff = start + 6;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+};
+
+const readJpegHeader = (view: DataView): ImageHeader | null => {
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(view, offset + 4);
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // Start of frame: precision, height, width
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7), orientation };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// HEIF 'irot' turns the image anticlockwise in quarter turns
+const IROT_ORIENTATION = [1, 8, 3, 6];
+
+/**
+ * HEIC and AVIF keep each item's size in an 'ispe' property inside
+ * meta/iprp/ipco. Phones store the photo as a grid of tiles plus thumbnails,
+ * each with its own 'ispe'; the largest one is the full image.
+ */
+const readHeifHeader = (view: DataView): ImageHeader | null => {
+  const found: { size: { width: number; height: number } | null; rotation: number } = { size: null, rotation: 0 };
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const boxSize = view.getUint32(offset);
+      // 1 means a 64-bit size, which only the media data uses; the properties come before it
+      if (boxSize !== 0 && boxSize < 8) return;
+      const boxEnd = boxSize === 0 ? end : Math.min(end, offset + boxSize);
+      const type = fourCC(view, offset + 4);
+      if (type === 'meta') {
+        // A full box: version and flags precede the children
+        walk(offset + 12, boxEnd);
+      } else if (type === 'iprp' || type === 'ipco') {
+        walk(offset + 8, boxEnd);
+      } else if (type === 'ispe' && offset + 20 <= boxEnd) {
+        const width = view.getUint32(offset + 12);
+        const height = view.getUint32(offset + 16);
+        const { size } = found;
+        if (!size || width * height > size.width * size.height) found.size = { width, height };
+      } else if (type === 'irot' && offset + 9 <= boxEnd) {
+        found.rotation = view.getUint8(offset + 8) & 0x3;
+      }
+      if (boxSize === 0) return;
+      offset += boxSize;
+    }
+  };
+
+  walk(0, view.byteLength);
+  return found.size ? { ...found.size, orientation: IROT_ORIENTATION[found.rotation] } : null;
+};
+
+/**
+ * Reads the size and orientation from the start of a JPEG, PNG or HEIC
+ * without decoding it. Other formats (WebP) return null.
+ */
+export const readImageHeader = async (file: Blob): Promise<ImageHeader | null> => {
+  try {
+    const view = new DataView(await file.slice(0, IMAGE_HEADER_BYTES).arrayBuffer());
+    if (view.byteLength < 24) return null;
+    if (view.getUint16(0) === 0xffd8) return readJpegHeader(view);
+    if (view.getUint32(0) === 0x89504e47) return { width: view.getUint32(16), height: view.getUint32(20), orientation: 1 };
+    if (fourCC(view, 4) === 'ftyp') return readHeifHeader(view);
+    return null;
+  } catch {
+    // A truncated or odd header just means no early downscale
+    return null;
+  }
+};
+
+export const uprightSize = ({ width, height, orientation }: ImageHeader) =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+/**
+ * Decodes straight to a reduced size where the browser supports it, so a
+ * 48MP phone photo never exists as a full-size bitmap.
+ */
+const decode = async (file: File, upright: { width: number; height: number } | null): Promise<ImageBitmap> => {
+  const scale = upright ? Math.min(1, PREPROCESS_MAX_SIZE / Math.max(upright.width, upright.height)) : 1;
+  try {
+    // Only the width is given so a browser that resizes before rotating still keeps the aspect ratio
+    return await createImageBitmap(file, scale < 1
+      ? { imageOrientation: 'from-image', resizeWidth: Math.round(upright!.width * scale), resizeQuality: 'high' }
+      : { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(file.type
+      ? i18n.t('image.error.decode', { name: file.name, type: file.type })
+      : i18n.t('image.error.decodeFormat', { name: file.name }));
+  }
+};
+
+// Canvas transforms that turn a stored image upright, for orientations that swap the axes
+const ROTATIONS: Record<number, (width: number, height: number) => [number, number, number, number, number, number]> = {
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, height) => [0, 1, -1, 0, height, 0],
+  7: (width, height) => [0, -1, -1, 0, height, width],
+  8: width => [0, -1, 1, 0, 0, width]
+};
+
+/**
+ * Turns an upload into an upright canvas no larger than PREPROCESS_MAX_SIZE,
+ * cropped to the user's selection when there is one.
+ */
+export const prepareImage = async (file: File, crop?: CropBox): Promise<PreparedImage> => {
+  const header = await readImageHeader(file);
+  const upright = header ? uprightSize(header) : null;
+  const bitmap = await decode(file, upright);
+
+  try {
+    // Browsers apply EXIF orientation while decoding; an old one that didn't leaves a rotated photo's axes unswapped
+    const unrotated = !!header && header.orientation >= 5 && bitmap.width !== bitmap.height
+      && (bitmap.width > bitmap.height) === (header.width > header.height);
+    const width = unrotated ? bitmap.height : bitmap.width;
+    const height = unrotated ? bitmap.width : bitmap.height;
+
+    // Browsers that ignore the resize options return the full-size image
+    const scale = Math.min(1, PREPROCESS_MAX_SIZE / Math.max(width, height));
+    const region = crop
+      ? { x: crop.x * width, y: crop.y * height, width: crop.width * width, height: crop.height * height }
+      : { x: 0, y: 0, width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.width * scale));
+    canvas.height = Math.max(1, Math.round(region.height * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+    ctx.translate(-region.x, -region.y);
+    if (unrotated) ctx.transform(...ROTATIONS[header!.orientation](bitmap.width, bitmap.height));
+    ctx.drawImage(bitmap, 0, 0);
+
+    // The decoded bitmap may already be smaller than the original photo
+    const decoded = (upright?.width ?? width) / width;
+    return {
+      canvas,
+      toOriginal: box => ({
+        x: (box.x / scale + region.x) * decoded,
+        y: (box.y / scale + region.y) * decoded,
+        width: (box.width / scale) * decoded,
+        height: (box.height / scale) * decoded
+      }),
+      fromOriginal: box => ({
+        x: (box.x / decoded - region.x) * scale,
+        y: (box.y / decoded - region.y) * scale,
+        width: (box.width / decoded) * scale,
+        height: (box.height / decoded) * scale
+      })
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,107 @@
+import { ClassificationResult, ImpactEntry, ImpactEstimate, ImpactSummary, ImpactTable, Milestone, WasteCategory } from '../types';
+
+const ZERO: ImpactEstimate = { co2eKg: 0, energyKWh: 0, landfillKg: 0 };
+
+const add = (a: ImpactEstimate, b: ImpactEstimate): ImpactEstimate => ({
+  co2eKg: a.co2eKg + b.co2eKg,
+  energyKWh: a.energyKWh + b.energyKWh,
+  landfillKg: a.landfillKg + b.landfillKg
+});
+
+/** What sorting one typical item of the category saves, or undefined without a factor. */
+export const estimateImpact = (category: WasteCategory, table: ImpactTable): ImpactEstimate | undefined => {
+  const factor = table.factors[category];
+  if (!factor) return undefined;
+  return {
+    co2eKg: factor.typicalMassKg * factor.co2eKgPerKg,
+    energyKWh: factor.typicalMassKg * factor.energyKWhPerKg,
+    landfillKg: factor.typicalMassKg
+  };
+};
+
+/** Sets or clears the result's estimate; an uncertain result has no single bin to credit. */
+export const withImpact = <T extends ClassificationResult>(result: T, table: ImpactTable): T => {
+  const impact = result.uncertain ? undefined : estimateImpact(result.category, table);
+  return result.impact === impact ? result : { ...result, impact };
+};
+
+// Local calendar day, so a streak follows the user's own midnight
+const dayKey = (time: number | Date) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+const previousDay = (date: Date) => {
+  const day = new Date(date);
+  day.setDate(day.getDate() - 1);
+  return day;
+};
+
+const countStreaks = (timestamps: number[], now: number) => {
+  const days = new Set(timestamps.map(dayKey));
+
+  // Today doesn't break the streak until it is over
+  let cursor = new Date(now);
+  if (!days.has(dayKey(cursor))) cursor = previousDay(cursor);
+  let current = 0;
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = previousDay(cursor);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let last: string | null = null;
+  for (const time of [...timestamps].sort((a, b) => a - b)) {
+    const key = dayKey(time);
+    if (key === last) continue;
+    run = last !== null && dayKey(previousDay(new Date(time))) === last ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    last = key;
+  }
+  return { current, longest };
+};
+
+export const summarizeImpact = (entries: ImpactEntry[], milestones: Milestone[], now: number = Date.now()): ImpactSummary => {
+  const byCategory: ImpactSummary['byCategory'] = {};
+  let totals = ZERO;
+  for (const entry of entries) {
+    totals = add(totals, entry.impact);
+    const bucket = byCategory[entry.category] ?? { items: 0, totals: ZERO };
+    byCategory[entry.category] = { items: bucket.items + 1, totals: add(bucket.totals, entry.impact) };
+  }
+
+  const { current, longest } = countStreaks(entries.map(entry => entry.timestamp), now);
+  return {
+    items: entries.length,
+    totals,
+    byCategory,
+    currentStreak: current,
+    longestStreak: longest,
+    milestones: milestones.filter(m => (m.kind === 'items' ? entries.length : totals.co2eKg) >= m.threshold)
+  };
+};
+
+/** Milestones in `after` that `before` hadn't reached. */
+export const newMilestones = (before: ImpactSummary, after: ImpactSummary): Milestone[] =>
+  after.milestones.filter(m => !before.milestones.some(b => b.kind === m.kind && b.threshold === m.threshold));
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per sorted item, for spreadsheets. */
+export const impactToCsv = (entries: ImpactEntry[]): string => {
+  const rows = [...entries]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.category,
+      entry.label,
+      entry.impact.co2eKg.toFixed(4),
+      entry.impact.energyKWh.toFixed(4),
+      entry.impact.landfillKg.toFixed(4)
+    ].map(csvField).join(','));
+  return ['timestamp,category,label,co2e_kg,energy_kwh,landfill_kg', ...rows].join('\n') + '\n';
+};
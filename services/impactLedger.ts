@@ -0,0 +1,75 @@
+import { ClassificationResult, ImpactEntry, ImpactSummary, Milestone } from '../types';
+import { IMPACT_MILESTONES, IMPACT_REPORT_FORMAT, IMPACT_REPORT_VERSION, IMPACT_TABLE } from '../constants';
+import { impactToCsv, newMilestones, summarizeImpact } from './impact';
+import * as db from './db';
+
+const STORE = 'impact';
+
+type Listener = () => void;
+
+/**
+ * The user's running eco-score: one entry per item they confirmed sorting,
+ * kept in IndexedDB on this device. Scans alone don't count, since a Live
+ * Scan may see the same bottle many times.
+ */
+class ImpactLedger {
+  private listeners = new Set<Listener>();
+
+  /** Credits the result's estimate and returns any milestones it completed. */
+  public async record(result: ClassificationResult): Promise<Milestone[]> {
+    if (!result.impact) return [];
+
+    const before = await this.getSummary();
+    const entry: ImpactEntry = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      category: result.category,
+      label: result.label,
+      impact: result.impact
+    };
+    await db.put(STORE, entry);
+    this.notify();
+    return newMilestones(before, await this.getSummary());
+  }
+
+  public list(): Promise<ImpactEntry[]> {
+    return db.getAll<ImpactEntry>(STORE);
+  }
+
+  public async getSummary(): Promise<ImpactSummary> {
+    return summarizeImpact(await this.list(), IMPACT_MILESTONES);
+  }
+
+  /** A JSON report of the totals and every entry, with the factors they were computed from. */
+  public async exportReport(): Promise<string> {
+    const entries = await this.list();
+    return JSON.stringify({
+      format: IMPACT_REPORT_FORMAT,
+      version: IMPACT_REPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      factors: IMPACT_TABLE,
+      summary: summarizeImpact(entries, IMPACT_MILESTONES),
+      entries: entries.sort((a, b) => a.timestamp - b.timestamp)
+    }, null, 2);
+  }
+
+  public async exportCsv(): Promise<string> {
+    return impactToCsv(await this.list());
+  }
+
+  public async clear(): Promise<void> {
+    await db.clear(STORE);
+    this.notify();
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const impactLedger = new ImpactLedger();
@@ -0,0 +1,316 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import * as mobilenet from '@tensorflow-models/mobilenet';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { BoundingBox, ImageSource, ModelProfile } from '../../types';
+import { BENCHMARK_SHAPE, MOBILENET_INPUT_SIZE, MODEL_STORE_KEYS, SALIENCY_CELL_SIZE, TFJS_WASM_PATH } from '../../constants';
+import { modelStore } from '../modelStore';
+import {
+  ClassifyOutput,
+  DetectedObjectOutput,
+  DetectOptions,
+  Embedding,
+  Saliency,
+  TensorMemory,
+  TfBackendName,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+
+export type PixelSource = ImageBitmap | ImageSource;
+
+/** The detector's objects, or a whole-frame result when it found none. */
+export interface DetectOutput {
+  objects: DetectedObjectOutput[];
+  whole?: ClassifyOutput;
+}
+
+setWasmPaths(TFJS_WASM_PATH);
+
+/** Picks the first backend in the list that initialises on this device. */
+const selectBackend = async (backends: TfBackendName[]): Promise<TfBackendName> => {
+  for (const name of backends) {
+    try {
+      if (await tf.setBackend(name)) {
+        await tf.ready();
+        return name;
+      }
+    } catch (err) {
+      console.warn(`TensorFlow.js backend '${name}' is unavailable:`, err);
+    }
+  }
+  throw new Error(`None of the TensorFlow.js backends (${backends.join(', ')}) could be initialised.`);
+};
+
+// The model packages keep their GraphModel private
+const graphOf = <T>(model: T) => (model as unknown as { model: tf.GraphModel }).model;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const padBox = ([x, y, w, h]: [number, number, number, number], maxWidth: number, maxHeight: number, padding: number): BoundingBox => {
+  const padX = w * padding;
+  const padY = h * padding;
+  const left = Math.max(0, x - padX);
+  const top = Math.max(0, y - padY);
+  return {
+    x: left,
+    y: top,
+    width: Math.min(maxWidth, x + w + padX) - left,
+    height: Math.min(maxHeight, y + h + padY) - top
+  };
+};
+
+const crop = (image: tf.Tensor3D, box: BoundingBox): tf.Tensor3D => {
+  const [height, width] = image.shape;
+  const top = Math.min(height - 1, Math.floor(box.y));
+  const left = Math.min(width - 1, Math.floor(box.x));
+  const size: [number, number, number] = [
+    Math.max(1, Math.min(height - top, Math.round(box.height))),
+    Math.max(1, Math.min(width - left, Math.round(box.width))),
+    3
+  ];
+  return tf.slice(image, [top, left, 0], size);
+};
+
+/**
+ * MobileNet and COCO-SSD on whichever TensorFlow.js backend works here. It
+ * only produces raw predictions and embeddings; the waste mapping and the
+ * custom-class head stay on the main thread with the user's data.
+ */
+export class InferenceEngine {
+  private backend: TfBackendName | null = null;
+  private profile: ModelProfile | null = null;
+  private modelPromise: Promise<mobilenet.MobileNet> | null = null;
+  private detectorPromise: Promise<cocoSsd.ObjectDetection> | null = null;
+
+  /** Loads the profile's MobileNet, replacing a different one that was loaded before. */
+  public async load(backends: TfBackendName[], profile: ModelProfile): Promise<{ backend: TfBackendName; loadMs: number }> {
+    const backend = await this.selectBackend(backends);
+    if (this.profile?.id === profile.id && this.modelPromise) {
+      await this.modelPromise;
+      return { backend, loadMs: 0 };
+    }
+
+    const previous = this.modelPromise;
+    this.profile = profile;
+    this.modelPromise = null;
+    previous?.then(model => graphOf(model).dispose()).catch(() => undefined);
+
+    const started = performance.now();
+    await this.loadModel();
+    return { backend, loadMs: performance.now() - started };
+  }
+
+  /**
+   * Times a fixed convolution on the selected backend. MobileNet is mostly
+   * convolutions, so this ranks devices well enough to pick a profile
+   * without downloading one first.
+   */
+  public async benchmark(backends: TfBackendName[]): Promise<{ backend: TfBackendName; ms: number }> {
+    const backend = await this.selectBackend(backends);
+    const { size, channels, runs } = BENCHMARK_SHAPE;
+    const input = tf.randomNormal<tf.Rank.R4>([1, size, size, channels]);
+    const filter = tf.randomNormal<tf.Rank.R4>([3, 3, channels, channels]);
+    const run = async () => {
+      const started = performance.now();
+      const output = tf.conv2d(input, filter, 1, 'same');
+      await output.data();
+      output.dispose();
+      return performance.now() - started;
+    };
+
+    try {
+      // The first run compiles shaders or kernels, which a real frame wouldn't pay again
+      await run();
+      const times: number[] = [];
+      for (let i = 0; i < runs; i++) times.push(await run());
+      return { backend, ms: median(times) };
+    } finally {
+      input.dispose();
+      filter.dispose();
+    }
+  }
+
+  public memory(): TensorMemory {
+    // The WebGL backend adds its GPU usage to the common fields
+    const { numTensors, numBytes, numBytesInGPU, unreliable } = tf.memory() as tf.MemoryInfo & { numBytesInGPU?: number };
+    return { numTensors, numBytes, numBytesInGPU, unreliable };
+  }
+
+  /**
+   * The COCO-SSD detector is only needed for multi-object mode, so it is
+   * downloaded on first use rather than alongside MobileNet.
+   */
+  public loadDetector(): Promise<cocoSsd.ObjectDetection> {
+    if (!this.detectorPromise) {
+      this.detectorPromise = modelStore.load(
+        MODEL_STORE_KEYS.detector,
+        modelUrl => cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl }),
+        () => cocoSsd.load({ base: 'lite_mobilenet_v2' }),
+        graphOf
+      ).catch(err => {
+        this.detectorPromise = null;
+        throw err;
+      });
+    }
+    return this.detectorPromise;
+  }
+
+  public async classify(source: PixelSource, topK: number, embed: boolean, explain = false): Promise<ClassifyOutput> {
+    const model = await this.loadModel();
+    const image = tf.browser.fromPixels(source);
+    try {
+      const output = await this.classifyTensor(model, image, topK, embed);
+      return explain && output.predictions.length > 0
+        ? { ...output, saliency: await this.explainTensor(model, image, output.predictions[0].className) }
+        : output;
+    } finally {
+      image.dispose();
+    }
+  }
+
+  public async embed(source: PixelSource): Promise<Embedding> {
+    const model = await this.loadModel();
+    const image = tf.browser.fromPixels(source);
+    try {
+      return await this.embedTensor(model, image);
+    } finally {
+      image.dispose();
+    }
+  }
+
+  /** Finds the distinct objects in the frame and classifies a padded crop of each. */
+  public async detect(source: PixelSource, topK: number, embed: boolean, options: DetectOptions): Promise<DetectOutput> {
+    const [model, detector] = await Promise.all([this.loadModel(), this.loadDetector()]);
+    const image = tf.browser.fromPixels(source);
+    try {
+      const found = await detector.detect(image, options.maxObjects, options.minScore);
+      if (found.length === 0) {
+        return { objects: [], whole: await this.classifyTensor(model, image, topK, embed) };
+      }
+
+      const [height, width] = image.shape;
+      const objects: DetectedObjectOutput[] = [];
+      for (const object of found) {
+        const box = padBox(object.bbox, width, height, options.padding);
+        const region = crop(image, box);
+        try {
+          const output = await this.classifyTensor(model, region, topK, embed);
+          objects.push({ ...output, box, detectedClass: object.class, detectionScore: object.score });
+        } finally {
+          region.dispose();
+        }
+      }
+      return { objects };
+    } finally {
+      image.dispose();
+    }
+  }
+
+  private async selectBackend(backends: TfBackendName[]): Promise<TfBackendName> {
+    if (!this.backend) {
+      this.backend = await selectBackend(backends);
+    }
+    return this.backend;
+  }
+
+  private loadModel(): Promise<mobilenet.MobileNet> {
+    if (!this.modelPromise) {
+      const profile = this.profile;
+      if (!profile) return Promise.reject(new Error('No MobileNet profile has been loaded.'));
+      const { version, alpha } = profile;
+
+      // From the offline copy when available; a self-hosted profile downloads from its own URL
+      const promise: Promise<mobilenet.MobileNet> = modelStore.load(
+        profile.storeKey,
+        modelUrl => mobilenet.load({ version, alpha, modelUrl, inputRange: [0, 1] }),
+        () => profile.modelUrl
+          ? mobilenet.load({ version, alpha, modelUrl: profile.modelUrl, inputRange: [0, 1] })
+          : mobilenet.load({ version, alpha }),
+        graphOf
+      ).catch(err => {
+        if (this.modelPromise === promise) this.modelPromise = null;
+        throw err;
+      });
+      this.modelPromise = promise;
+    }
+    return this.modelPromise;
+  }
+
+  private async classifyTensor(model: mobilenet.MobileNet, image: tf.Tensor3D, topK: number, embed: boolean): Promise<ClassifyOutput> {
+    const predictions = await model.classify(image, topK);
+    return { predictions, embedding: embed ? await this.embedTensor(model, image) : undefined };
+  }
+
+  /**
+   * Gradient × input saliency for the top class: how much each pixel of
+   * MobileNet's input pushed that logit up, averaged over grid cells. Returns
+   * undefined where the backend lacks a gradient kernel.
+   */
+  private async explainTensor(model: mobilenet.MobileNet, image: tf.Tensor3D, className: string): Promise<Saliency | undefined> {
+    const input = tf.tidy(() => tf.image.resizeBilinear(tf.cast(image, 'float32'), [MOBILENET_INPUT_SIZE, MOBILENET_INPUT_SIZE], true));
+    let map: tf.Tensor | null = null;
+    try {
+      const top = tf.tidy(() => tf.argMax(model.infer(input), 1));
+      const [target] = await top.data();
+      top.dispose();
+
+      map = tf.tidy(() => {
+        const logit = (x: tf.Tensor3D) => tf.sum(tf.slice(model.infer(x), [0, target], [1, 1]));
+        const gradient = tf.grad(logit)(input);
+        const attribution = tf.max(tf.abs(tf.mul(gradient, input)), 2, true) as tf.Tensor3D;
+        const pooled = tf.avgPool(attribution, SALIENCY_CELL_SIZE, SALIENCY_CELL_SIZE, 'valid');
+        return tf.div(pooled, tf.add(tf.max(pooled), 1e-8));
+      });
+      return { data: (await map.data()) as Float32Array, size: map.shape[0], className };
+    } catch (err) {
+      console.warn('Saliency map unavailable on this backend:', err);
+      return undefined;
+    } finally {
+      input.dispose();
+      map?.dispose();
+    }
+  }
+
+  private async embedTensor(model: mobilenet.MobileNet, image: tf.Tensor3D): Promise<Embedding> {
+    const embedding = tf.tidy(() => model.infer(image, true));
+    try {
+      return { data: (await embedding.data()) as Float32Array, shape: embedding.shape };
+    } finally {
+      embedding.dispose();
+    }
+  }
+}
+
+/** Runs one protocol request; shared by the worker and the in-thread fallback. */
+export const respond = async (engine: InferenceEngine, request: WorkerRequest): Promise<WorkerResponse> => {
+  const { id } = request;
+  try {
+    switch (request.type) {
+      case 'benchmark':
+        return { id, type: 'benchmarked', ...(await engine.benchmark(request.backends)) };
+      case 'load':
+        return { id, type: 'loaded', ...(await engine.load(request.backends, request.profile)) };
+      case 'load-detector':
+        await engine.loadDetector();
+        return { id, type: 'detector-loaded' };
+      case 'classify':
+        return { id, type: 'classified', output: await engine.classify(request.image, request.topK, request.embed, request.explain) };
+      case 'detect':
+        return { id, type: 'detected', ...(await engine.detect(request.image, request.topK, request.embed, request.options)) };
+      case 'embed':
+        return { id, type: 'embedded', embedding: await engine.embed(request.image) };
+      case 'memory':
+        return { id, type: 'memory', memory: engine.memory() };
+      case 'cancel':
+        return { id, type: 'error', message: 'Cancel requests are handled by the queue' };
+    }
+  } catch (err) {
+    return { id, type: 'error', message: err instanceof Error ? err.message : String(err) };
+  } finally {
+    if ('image' in request) request.image.close();
+  }
+};
@@ -0,0 +1,71 @@
+import { modelStore } from '../modelStore';
+import { InferenceEngine, respond } from './engine';
+import { ClassifyOutput, WorkerMessage, WorkerRequest, WorkerResponse } from './protocol';
+
+// The project compiles against the DOM typings, so the worker scope is declared by hand
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const engine = new InferenceEngine();
+
+// Requests run one at a time; the TF backend can't interleave them anyway
+let queue: WorkerRequest[] = [];
+let running: WorkerRequest | null = null;
+const cancelled = new Set<number>();
+
+const post = (response: WorkerResponse) => {
+  const transfer: Transferable[] = [];
+  const outputs: ClassifyOutput[] = response.type === 'classified' ? [response.output]
+    : response.type === 'detected' ? [...response.objects, ...(response.whole ? [response.whole] : [])]
+    : [];
+  for (const output of outputs) {
+    if (output.embedding) transfer.push(output.embedding.data.buffer);
+    if (output.saliency) transfer.push(output.saliency.data.buffer);
+  }
+  if (response.type === 'embedded') transfer.push(response.embedding.data.buffer);
+  scope.postMessage(response, transfer);
+};
+
+const cancel = (id: number) => {
+  const queued = queue.find(request => request.id === id);
+  if (queued) {
+    queue = queue.filter(request => request !== queued);
+    if ('image' in queued) queued.image.close();
+    post({ id, type: 'error', message: 'Cancelled', cancelled: true });
+  } else if (running?.id === id) {
+    // Inference can't be interrupted midway, so its result is discarded instead
+    cancelled.add(id);
+  }
+};
+
+const drain = async () => {
+  if (running) return;
+  while (queue.length > 0) {
+    const request = queue.shift()!;
+    running = request;
+    let response = await respond(engine, request);
+    running = null;
+    if (cancelled.delete(request.id)) {
+      response = { id: request.id, type: 'error', message: 'Cancelled', cancelled: true };
+    }
+    post(response);
+  }
+};
+
+scope.onmessage = ({ data: request }) => {
+  if (request.type === 'cancel') {
+    cancel(request.target);
+    return;
+  }
+  if (request.supersede) {
+    // Only the newest frame is worth analysing
+    queue.filter(queued => queued.supersede === request.supersede).forEach(stale => cancel(stale.id));
+  }
+  queue.push(request);
+  drain();
+};
+
+modelStore.subscribe(key => scope.postMessage({ type: 'model-cached', key }));
@@ -0,0 +1,243 @@
+import { ImageSource, ModelProfile } from '../../types';
+import { INFERENCE_BACKENDS } from '../../constants';
+import { modelStore } from '../modelStore';
+import { modelProfiles } from '../modelProfiles';
+import { telemetry } from '../telemetry';
+import type { DetectOutput } from './engine';
+import {
+  ClassifyOutput,
+  DetectOptions,
+  Embedding,
+  RequestBody,
+  TensorMemory,
+  TfBackendName,
+  WorkerMessage,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+
+type Listener = (backend: TfBackendName) => void;
+type Handler = (request: WorkerRequest) => Promise<WorkerResponse>;
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (err: Error) => void;
+  supersede?: string;
+}
+
+// Live Scan frames share this key so a newer frame replaces a queued one
+const FRAME_KEY = 'frame';
+
+/** Thrown when a request was dropped in favour of a newer frame. */
+export class InferenceCancelledError extends Error {
+  constructor() {
+    super('Inference request was cancelled');
+    this.name = 'InferenceCancelledError';
+  }
+}
+
+const expect = <T extends WorkerResponse['type']>(response: WorkerResponse, type: T): Extract<WorkerResponse, { type: T }> => {
+  if (response.type === 'error') {
+    throw response.cancelled ? new InferenceCancelledError() : new Error(response.message);
+  }
+  if (response.type !== type) {
+    throw new Error(`Expected a '${type}' response from the inference engine, got '${response.type}'.`);
+  }
+  return response as Extract<WorkerResponse, { type: T }>;
+};
+
+/**
+ * Main-thread side of the inference worker. Images are sent as transferred
+ * ImageBitmaps so camera frames never get copied; browsers without module
+ * workers or OffscreenCanvas run the same engine in-thread instead.
+ */
+class InferenceClient {
+  private worker: Worker | null = null;
+  private local: Promise<Handler> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private loadPromise: Promise<TfBackendName> | null = null;
+  private backend: TfBackendName | null = null;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return;
+    try {
+      this.worker = new Worker(new URL('./inference.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = event => this.handleMessage(event.data);
+      this.worker.onerror = event => this.abandonWorker(event.message || 'the worker failed to start');
+    } catch (err) {
+      console.warn('Inference worker unavailable, running on the main thread:', err);
+    }
+  }
+
+  /** The TensorFlow.js backend in use, once the model has loaded. */
+  public getBackend(): TfBackendName | null {
+    return this.backend;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public load(): Promise<TfBackendName> {
+    if (!this.loadPromise) {
+      const viaWorker = this.worker !== null;
+      const attempt = () => this.loadActiveProfile();
+
+      this.loadPromise = attempt()
+        // A worker that crashed during loading is replaced by the in-thread engine
+        .catch(err => (viaWorker && !this.worker ? attempt() : Promise.reject(err)))
+        .then(backend => {
+          console.log(`Local ${telemetry.getLoad()?.profile.name ?? 'MobileNet'} model loaded on the ${backend} backend.`);
+          this.backend = backend;
+          this.listeners.forEach(listener => listener(backend));
+          return backend;
+        })
+        .catch(err => {
+          this.loadPromise = null;
+          throw err;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  /** Swaps in the currently active profile, e.g. after the user picked another one. */
+  public reload(): Promise<TfBackendName> {
+    this.loadPromise = null;
+    return this.load();
+  }
+
+  public async loadDetector(): Promise<void> {
+    expect(await this.request({ type: 'load-detector' }), 'detector-loaded');
+  }
+
+  public async classify(source: ImageSource, topK: number, embed: boolean, explain = false, frame = false): Promise<ClassifyOutput> {
+    const started = performance.now();
+    const image = await createImageBitmap(source);
+    const { output } = expect(await this.request({ type: 'classify', image, topK, embed, explain }, frame ? FRAME_KEY : undefined), 'classified');
+    // Explaining adds a backward pass, which a Live Scan frame never pays
+    if (!explain) telemetry.recordInference('classify', performance.now() - started);
+    return output;
+  }
+
+  public async detect(source: ImageSource, topK: number, embed: boolean, options: DetectOptions, frame = false): Promise<DetectOutput> {
+    const started = performance.now();
+    const image = await createImageBitmap(source);
+    const { objects, whole } = expect(await this.request({ type: 'detect', image, topK, embed, options }, frame ? FRAME_KEY : undefined), 'detected');
+    telemetry.recordInference('detect', performance.now() - started);
+    return { objects, whole };
+  }
+
+  /** tf.memory() of the engine, wherever it runs. */
+  public async getMemory(): Promise<TensorMemory> {
+    return expect(await this.request({ type: 'memory' }), 'memory').memory;
+  }
+
+  public async embed(source: ImageSource): Promise<Embedding> {
+    const image = await createImageBitmap(source);
+    return expect(await this.request({ type: 'embed', image }), 'embedded').embedding;
+  }
+
+  /** Drops camera frames that are still waiting, e.g. when the camera stops. */
+  public cancelFrames(): void {
+    for (const [id, pending] of this.pending) {
+      if (pending.supersede === FRAME_KEY) {
+        this.worker?.postMessage({ id: this.nextId++, type: 'cancel', target: id } satisfies WorkerRequest);
+      }
+    }
+  }
+
+  /**
+   * Benchmarks the device once to pick a profile, then loads the user's
+   * profile or the recommended one.
+   */
+  private async loadActiveProfile(): Promise<TfBackendName> {
+    if (!modelProfiles.hasBenchmark()) {
+      try {
+        const { ms } = expect(await this.request({ type: 'benchmark', backends: [...INFERENCE_BACKENDS] }), 'benchmarked');
+        modelProfiles.setBenchmarkMs(ms);
+      } catch (err) {
+        console.warn('Startup benchmark failed, using the default model profile:', err);
+      }
+    }
+
+    const profile = modelProfiles.getActive();
+    try {
+      return await this.loadProfile(profile);
+    } catch (err) {
+      const fallback = await this.findFallback(profile);
+      if (!fallback) throw err;
+      console.warn(`${profile.name} could not be loaded, using ${fallback.name} instead:`, err);
+      if (profile.modelUrl) modelProfiles.setOverride(null);
+      return this.loadProfile(fallback);
+    }
+  }
+
+  /**
+   * What to load when `failed` couldn't be: a profile already saved for
+   * offline use, the recommended one first, so a failed download still leaves
+   * a working model.
+   */
+  private async findFallback(failed: ModelProfile): Promise<ModelProfile | null> {
+    const recommended = modelProfiles.getRecommended();
+    for (const profile of [recommended, ...modelProfiles.getProfiles()]) {
+      if (profile.id !== failed.id && await modelStore.hasOfflineCopy(profile.storeKey)) return profile;
+    }
+    // A self-hosted profile may not be deployed on this server; the built-in one is worth a download
+    return failed.modelUrl && recommended.id !== failed.id ? recommended : null;
+  }
+
+  private async loadProfile(profile: ModelProfile): Promise<TfBackendName> {
+    const { backend, loadMs } = expect(await this.request({ type: 'load', backends: [...INFERENCE_BACKENDS], profile }), 'loaded');
+    telemetry.recordLoad({ profile, backend, loadMs, inWorker: this.worker !== null });
+    return backend;
+  }
+
+  private async request(body: RequestBody, supersede?: string): Promise<WorkerResponse> {
+    const request = { ...body, id: this.nextId++, supersede } as WorkerRequest;
+    const worker = this.worker;
+    if (!worker) {
+      return (await this.getLocalHandler())(request);
+    }
+
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject, supersede });
+      worker.postMessage(request, 'image' in request ? [request.image] : []);
+    });
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    if (message.type === 'model-cached') {
+      modelStore.markCached(message.key);
+      return;
+    }
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    pending.resolve(message);
+  }
+
+  private abandonWorker(reason: string): void {
+    console.warn(`Inference worker stopped (${reason}), running on the main thread.`);
+    this.worker?.terminate();
+    this.worker = null;
+    const stranded = Array.from(this.pending.values());
+    this.pending.clear();
+    stranded.forEach(pending => pending.reject(new Error(`Inference worker stopped: ${reason}`)));
+  }
+
+  private getLocalHandler(): Promise<Handler> {
+    if (!this.local) {
+      // Loaded on demand so the models aren't bundled into the main thread twice
+      this.local = import('./engine').then(({ InferenceEngine, respond }) => {
+        const engine = new InferenceEngine();
+        return (request: WorkerRequest) => respond(engine, request);
+      });
+    }
+    return this.local;
+  }
+}
+
+export const inferenceClient = new InferenceClient();
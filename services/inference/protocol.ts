@@ -0,0 +1,83 @@
+import { BoundingBox, ModelProfile, Prediction } from '../../types';
+import { INFERENCE_BACKENDS } from '../../constants';
+
+// Messages exchanged with the inference worker. Every request carries an id
+// that its single response echoes back.
+
+export type TfBackendName = typeof INFERENCE_BACKENDS[number];
+
+export interface Embedding {
+  data: Float32Array;
+  shape: number[];
+}
+
+// Square grid of attributions for the top prediction, row-major
+export interface Saliency {
+  data: Float32Array;
+  size: number;
+  className: string;
+}
+
+export interface ClassifyOutput {
+  predictions: Prediction[];
+  // MobileNet embedding for the custom-class head, when requested
+  embedding?: Embedding;
+  saliency?: Saliency;
+}
+
+export interface DetectedObjectOutput extends ClassifyOutput {
+  box: BoundingBox;
+  detectedClass: string;
+  detectionScore: number;
+}
+
+// tf.memory() of the engine's TensorFlow.js instance
+export interface TensorMemory {
+  numTensors: number;
+  numBytes: number;
+  // Only reported by the WebGL backend
+  numBytesInGPU?: number;
+  // True when the backend can't account for every byte, e.g. WASM
+  unreliable?: boolean;
+}
+
+export interface DetectOptions {
+  maxObjects: number;
+  minScore: number;
+  // Fraction of the box size added on each side before cropping
+  padding: number;
+}
+
+export type RequestBody =
+  | { type: 'benchmark'; backends: TfBackendName[] }
+  | { type: 'load'; backends: TfBackendName[]; profile: ModelProfile }
+  | { type: 'load-detector' }
+  | { type: 'classify'; image: ImageBitmap; topK: number; embed: boolean; explain: boolean }
+  | { type: 'detect'; image: ImageBitmap; topK: number; embed: boolean; options: DetectOptions }
+  | { type: 'embed'; image: ImageBitmap }
+  | { type: 'memory' }
+  | { type: 'cancel'; target: number };
+
+export type WorkerRequest = RequestBody & {
+  id: number;
+  // A newer queued request with the same key replaces this one, e.g. Live Scan frames
+  supersede?: string;
+};
+
+export type WorkerResponse =
+  // Median time of the benchmark convolution
+  | { id: number; type: 'benchmarked'; backend: TfBackendName; ms: number }
+  // `loadMs` is 0 when the profile was already loaded
+  | { id: number; type: 'loaded'; backend: TfBackendName; loadMs: number }
+  | { id: number; type: 'detector-loaded' }
+  | { id: number; type: 'classified'; output: ClassifyOutput }
+  // `whole` classifies the full frame when the detector found nothing
+  | { id: number; type: 'detected'; objects: DetectedObjectOutput[]; whole?: ClassifyOutput }
+  | { id: number; type: 'embedded'; embedding: Embedding }
+  | { id: number; type: 'memory'; memory: TensorMemory }
+  | { id: number; type: 'error'; message: string; cancelled?: boolean };
+
+// Unprompted notifications from the worker
+export type WorkerEvent = { type: 'model-cached'; key: string };
+
+export type WorkerMessage = WorkerResponse | WorkerEvent;
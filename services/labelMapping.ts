@@ -0,0 +1,199 @@
+import { Calibration, CategoryScore, ClassificationResult, Prediction, RulePack, RulePackCategory, UncertainCandidate, WasteCategory } from '../types';
+import { keywordPattern, taxonomy, TaxonomyNode } from './taxonomy';
+import { calibrateScores } from './calibration';
+import { defaultTranslator, Translator } from './translator';
+
+/**
+ * What the mapping needs beyond the predictions. Kept explicit so the same
+ * code runs in the browser and in the headless benchmark.
+ */
+export interface MappingContext {
+  pack: RulePack;
+  // Category the user taught for a label, if any
+  getLearnedCategory?: (label: string) => WasteCategory | undefined;
+  // Per-category temperatures applied to the fused scores
+  calibration?: Calibration;
+  // Language of the reasoning text; English when omitted
+  translator?: Translator;
+}
+
+interface KeywordMatch {
+  mapping: RulePackCategory;
+  keyword: string;
+  // Most specific taxonomy item for the label, when one matched
+  node?: TaxonomyNode;
+  contaminated?: boolean;
+  // True when the match came from a user correction rather than the rule pack
+  learned?: boolean;
+  // Human-readable account of what matched, for the result's reasoning
+  reason: string;
+}
+
+interface Contribution {
+  prediction: Prediction;
+  match: KeywordMatch;
+}
+
+const firstAlias = (label: string) => label.split(',')[0];
+
+export const mapLabelToWaste = (label: string, context: MappingContext): KeywordMatch | null => {
+  const lowerLabel = label.toLowerCase();
+  const categories = context.pack.categories;
+  const { t, category } = context.translator ?? defaultTranslator;
+  let best: KeywordMatch | null = null;
+
+  // Corrections the user taught us take precedence over the built-in keywords
+  const learned = context.getLearnedCategory?.(label);
+  const learnedMapping = learned && categories.find(c => c.category === learned);
+  if (learnedMapping) {
+    return { mapping: learnedMapping, keyword: firstAlias(label), learned: true, reason: t('reasoning.reason.learned') };
+  }
+
+  // Taxonomy items give the most specific answer. The pack's own keywords
+  // still apply, but only a strictly longer one beats a taxonomy item.
+  const item = taxonomy.match(label);
+  const itemMapping = item && categories.find(c => c.category === item.node.category);
+  if (item && itemMapping) {
+    best = {
+      mapping: itemMapping,
+      keyword: item.keyword,
+      node: item.node,
+      contaminated: item.contaminated,
+      reason: t('reasoning.reason.taxonomy', {
+        keyword: item.keyword,
+        item: item.contaminated && item.node.contaminated ? item.node.contaminated.name : item.node.name
+      })
+    };
+  }
+
+  // Rule-based mapping from ImageNet labels to the pack's categories.
+  // Keywords must match on word boundaries and the longest keyword wins,
+  // so 'wine bottle' resolves to Glass rather than the generic 'bottle'.
+  for (const mapping of categories) {
+    for (const keyword of mapping.keywords) {
+      if (keywordPattern(keyword).test(lowerLabel) && (!best || keyword.length > best.keyword.length)) {
+        best = { mapping, keyword, reason: t('reasoning.reason.pack', { pack: context.pack.name, keyword, category: category(mapping.category) }) };
+      }
+    }
+  }
+
+  return best;
+};
+
+export const getUnknownResult = (
+  pack: RulePack,
+  label?: string,
+  confidence: number = 0,
+  translator: Translator = defaultTranslator
+): ClassificationResult => {
+  const shown = firstAlias(label ?? translator.t('reasoning.unknownLabel'));
+  return {
+    category: WasteCategory.UNKNOWN,
+    confidence,
+    label: shown,
+    reasoning: translator.t('reasoning.unknown', { label: shown }),
+    disposalInstructions: pack.unknownInstructions,
+    alternatives: []
+  };
+};
+
+/** Groups the predictions by the category their label maps to. */
+const fusePredictions = (predictions: Prediction[], context: MappingContext) => {
+  const contributions = new Map<WasteCategory, Contribution[]>();
+  const unmatched: Prediction[] = [];
+
+  for (const prediction of predictions) {
+    const match = mapLabelToWaste(prediction.className, context);
+    if (!match) {
+      unmatched.push(prediction);
+      continue;
+    }
+    const category = match.mapping.category;
+    contributions.set(category, [...(contributions.get(category) ?? []), { prediction, match }]);
+  }
+
+  const scores = new Map(Array.from(contributions.entries()).map(([category, list]) =>
+    [category, list.reduce((sum, c) => sum + c.prediction.probability, 0)] as const
+  ));
+  return { contributions, unmatched, scores };
+};
+
+/** Uncalibrated per-category scores, as used to fit a calibration. */
+export const getCategoryScores = (predictions: Prediction[], context: MappingContext): Map<WasteCategory, number> =>
+  fusePredictions(predictions, context).scores;
+
+/** Turns MobileNet's top-k ImageNet predictions into a waste classification. */
+export const mapPredictionsToWaste = (predictions: Prediction[], context: MappingContext): ClassificationResult => {
+  const translator = context.translator ?? defaultTranslator;
+  const { t, percent } = translator;
+  if (predictions.length === 0) {
+    return getUnknownResult(context.pack, undefined, 0, translator);
+  }
+
+  // Fuse all top-k predictions: each one votes for the category its label maps to
+  const { contributions, unmatched, scores } = fusePredictions(predictions, context);
+  const calibrated = context.calibration ? calibrateScores(scores, context.calibration) : scores;
+
+  const ranked: CategoryScore[] = Array.from(calibrated.entries())
+    .map(([category, score]) => ({ category, score }))
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) {
+    return getUnknownResult(context.pack, predictions[0].className, predictions[0].probability, translator);
+  }
+
+  const winner = ranked[0];
+  const drivers = [...contributions.get(winner.category)!].sort((a, b) => b.prediction.probability - a.prediction.probability);
+  const { prediction, match } = drivers[0];
+  const label = firstAlias(prediction.className);
+
+  const described = taxonomy.describe(match.node ?? winner.category, context.pack, match.contaminated);
+  const where = described.path.map(step => step.name).join(' › ') || translator.category(winner.category);
+  const raw = scores.get(winner.category)!;
+
+  const reasoning = [
+    t('reasoning.identified', { label, reason: match.reason, where }),
+    t('reasoning.drivers', { predictions: drivers.map(d => `'${firstAlias(d.prediction.className)}' ${percent(d.prediction.probability)}`).join(', ') }),
+    unmatched.length > 0 ? t('reasoning.unmatched', { count: unmatched.length, total: predictions.length }) : '',
+    Math.abs(winner.score - raw) >= 0.005
+      ? t('reasoning.calibrated', { score: percent(winner.score), raw: percent(raw) })
+      : t('reasoning.combined', { total: predictions.length, score: percent(winner.score) })
+  ].filter(Boolean).join(' ');
+
+  return {
+    category: winner.category,
+    confidence: winner.score,
+    label,
+    reasoning,
+    ...described,
+    alternatives: ranked.slice(1),
+    binColor: match.mapping.binColor,
+    dropOffNotes: match.mapping.dropOffNotes
+  };
+};
+
+/**
+ * Turns a low-confidence result into an explicit "uncertain" one listing the
+ * two leading bins, rather than presenting a guess as an answer. Results
+ * settled by a barcode or resin code are left alone. Safe to re-apply, e.g.
+ * after Live Scan averages the confidence over several frames.
+ */
+export const withAbstention = <T extends ClassificationResult>(result: T, threshold: number, pack: RulePack): T => {
+  const { uncertain: _previous, ...base } = result;
+  const decidedByCode = result.decidedBy === 'barcode' || result.decidedBy === 'resin-code';
+  if (result.category === WasteCategory.UNKNOWN || decidedByCode || result.confidence >= threshold) {
+    return base as T;
+  }
+
+  const runnerUp = result.alternatives.find(alt => alt.category !== WasteCategory.UNKNOWN);
+  const candidates: UncertainCandidate[] = [{ category: result.category, score: result.confidence, disposalInstructions: result.disposalInstructions, binColor: result.binColor }];
+  if (runnerUp) {
+    candidates.push({
+      category: runnerUp.category,
+      score: runnerUp.score,
+      disposalInstructions: taxonomy.describe(runnerUp.category, pack).disposalInstructions,
+      binColor: pack.categories.find(c => c.category === runnerUp.category)?.binColor
+    });
+  }
+  return { ...base, uncertain: candidates } as T;
+};
@@ -0,0 +1,104 @@
+import { WasteCategory } from '../types';
+import { LABEL_OVERRIDES_FORMAT, LABEL_OVERRIDES_VERSION, STORAGE_KEYS } from '../constants';
+import { i18n } from './i18n';
+
+const VALID_CATEGORIES = Object.values(WasteCategory).filter(c => c !== WasteCategory.UNKNOWN) as string[];
+
+type Listener = () => void;
+
+const normalize = (label: string) => label.split(',')[0].trim().toLowerCase();
+
+/**
+ * User-taught ImageNet label → category corrections. Kept in localStorage so
+ * the synchronous label mapping can consult them on every prediction.
+ */
+class LabelOverrides {
+  private overrides: Record<string, WasteCategory> = {};
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.labelOverrides);
+      if (stored) this.overrides = this.validate(JSON.parse(stored));
+    } catch (err) {
+      console.warn('Ignoring corrupted label corrections:', err);
+    }
+  }
+
+  public get(label: string): WasteCategory | undefined {
+    return this.overrides[normalize(label)];
+  }
+
+  public getAll(): Record<string, WasteCategory> {
+    return { ...this.overrides };
+  }
+
+  public set(label: string, category: WasteCategory): void {
+    this.overrides[normalize(label)] = category;
+    this.persist();
+  }
+
+  public remove(label: string): void {
+    delete this.overrides[normalize(label)];
+    this.persist();
+  }
+
+  public export(): string {
+    return JSON.stringify({
+      format: LABEL_OVERRIDES_FORMAT,
+      version: LABEL_OVERRIDES_VERSION,
+      overrides: this.overrides
+    }, null, 2);
+  }
+
+  /** Merges a shared correction file into the local table. Returns the number of entries imported. */
+  public import(json: string): number {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error(i18n.t('corrections.error.json'));
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(i18n.t('corrections.error.format'));
+    }
+    const file = parsed as Record<string, unknown>;
+    if (file.format !== LABEL_OVERRIDES_FORMAT) {
+      throw new Error(i18n.t('corrections.error.format'));
+    }
+    if (file.version !== LABEL_OVERRIDES_VERSION) {
+      throw new Error(i18n.t('corrections.error.version', { version: String(file.version) }));
+    }
+
+    const imported = this.validate(file.overrides);
+    this.overrides = { ...this.overrides, ...imported };
+    this.persist();
+    return Object.keys(imported).length;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private validate(raw: unknown): Record<string, WasteCategory> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(i18n.t('corrections.error.shape'));
+    }
+    const result: Record<string, WasteCategory> = {};
+    for (const [label, category] of Object.entries(raw)) {
+      if (typeof category !== 'string' || !VALID_CATEGORIES.includes(category)) {
+        throw new Error(i18n.t('corrections.error.category', { label, category: String(category) }));
+      }
+      result[normalize(label)] = category as WasteCategory;
+    }
+    return result;
+  }
+
+  private persist(): void {
+    localStorage.setItem(STORAGE_KEYS.labelOverrides, JSON.stringify(this.overrides));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const labelOverrides = new LabelOverrides();
@@ -0,0 +1,245 @@
+import { createWorker, PSM, Worker } from 'tesseract.js';
+import { ClassificationResult, Evidence, ImageSource, MaterialScan, ProductEntry, ResinCodeEntry, WasteCategory } from '../types';
+import {
+  BARCODE_CONFIDENCE,
+  BARCODE_FORMATS,
+  DEFAULT_ACCEPTED_RESIN_CODES,
+  PRODUCTS,
+  RESIN_CODE_CONFIDENCE,
+  RESIN_CODES,
+  RESIN_OCR_MAX_SIZE
+} from '../constants';
+import { rulePackManager } from './rulePacks';
+import { taxonomy } from './taxonomy';
+import { i18n } from './i18n';
+
+// The Barcode Detection API is not in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: ImageSource): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const EMPTY_SCAN: MaterialScan = { barcodes: [], resinCode: null };
+
+// UPC-A is GTIN-13 with the leading zero dropped
+const toGtin13 = (code: string) => (code.length === 12 ? `0${code}` : code);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A resin number as printed beside or inside the triangle: "5", "05", "#5", "(5)" or "<5>"
+const resinNumber = (code: number) => `[#(<]?\\s*0?${code}[)>]?`;
+
+// Words like PET or OTHER are ordinary label text, so a marking only counts
+// next to its own number. Single letters (V, O) are too easily misread even then.
+const RESIN_MARKINGS = RESIN_CODES.flatMap(entry =>
+  [entry.abbreviation, ...entry.aliases]
+    .filter(marking => marking.length > 1)
+    .map(marking => {
+      const text = escapeRegExp(marking);
+      const number = resinNumber(entry.code);
+      return { code: entry.code, pattern: new RegExp(`(^|[^A-Z0-9])(${number}[\\s-]*${text}|${text}[\\s-]*${number})([^A-Z0-9]|$)`) };
+    })
+);
+
+/**
+ * Finds a resin code in OCR text: a marking beside its number, such as "PP 5"
+ * or "1 PETE", wins, otherwise a number written as "#5". A bare digit is
+ * ignored since the triangle outline rarely survives OCR and digits are
+ * everywhere on a label.
+ */
+export const parseResinCode = (text: string): number | null => {
+  const upper = text.toUpperCase();
+  const marking = RESIN_MARKINGS.find(({ pattern }) => pattern.test(upper));
+  if (marking) return marking.code;
+
+  const numbered = upper.match(/#\s*([1-7])\b/);
+  return numbered ? Number(numbered[1]) : null;
+};
+
+const toCanvas = (element: ImageSource): HTMLCanvasElement => {
+  const width = element instanceof HTMLVideoElement ? element.videoWidth : element instanceof HTMLImageElement ? element.naturalWidth : element.width;
+  const height = element instanceof HTMLVideoElement ? element.videoHeight : element instanceof HTMLImageElement ? element.naturalHeight : element.height;
+  const scale = Math.min(1, RESIN_OCR_MAX_SIZE / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(element, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Reads product barcodes and resin identification codes from an image and
+ * uses the local material tables to refine a vision result. Everything runs
+ * in the browser; a missing capability just yields no codes.
+ */
+class MaterialScanner {
+  private barcodeDetector: BarcodeDetectorLike | null = null;
+  private ocrWorker: Promise<Worker> | null = null;
+
+  constructor() {
+    const BarcodeDetector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (BarcodeDetector) {
+      try {
+        this.barcodeDetector = new BarcodeDetector({ formats: BARCODE_FORMATS });
+      } catch (err) {
+        console.warn('Barcode detection is unavailable:', err);
+      }
+    }
+  }
+
+  public canReadBarcodes(): boolean {
+    return this.barcodeDetector !== null;
+  }
+
+  /** Barcodes and the resin code are read independently; one failing keeps the other's result. */
+  public async scan(element: ImageSource): Promise<MaterialScan> {
+    const [barcodes, resinCode] = await Promise.allSettled([this.readBarcodes(element), this.readResinCode(element)]);
+    if (barcodes.status === 'rejected') console.warn('Barcode scan failed:', barcodes.reason);
+    if (resinCode.status === 'rejected') console.warn('Resin code scan failed:', resinCode.reason);
+    return {
+      barcodes: barcodes.status === 'fulfilled' ? barcodes.value : EMPTY_SCAN.barcodes,
+      resinCode: resinCode.status === 'fulfilled' ? resinCode.value : EMPTY_SCAN.resinCode
+    };
+  }
+
+  public lookupProduct(barcode: string): ProductEntry | undefined {
+    const gtin = toGtin13(barcode);
+    return PRODUCTS.find(product => product.gtin === gtin);
+  }
+
+  public getResinCode(code: number): ResinCodeEntry | undefined {
+    return RESIN_CODES.find(entry => entry.code === code);
+  }
+
+  /**
+   * Merges the scan into a vision result. A barcode found in the product table
+   * takes precedence over a printed resin code, which takes precedence over
+   * the model; every signal seen is kept in `evidence`.
+   */
+  public refine(result: ClassificationResult, scan: MaterialScan): ClassificationResult {
+    const evidence: Evidence[] = [
+      { source: 'vision', value: result.label, detail: `${i18n.category(result.category)}, ${i18n.percent(result.confidence)}` }
+    ];
+
+    let product: { barcode: string; entry: ProductEntry } | undefined;
+    for (const barcode of scan.barcodes) {
+      const entry = this.lookupProduct(barcode);
+      if (entry && !product) product = { barcode, entry };
+      evidence.push({ source: 'barcode', value: barcode, detail: entry ? entry.name : i18n.t('evidence.notInTable') });
+    }
+
+    const scannedResin = scan.resinCode !== null ? this.getResinCode(scan.resinCode) : undefined;
+    if (scannedResin) {
+      evidence.push({ source: 'resin-code', value: `#${scannedResin.code}`, detail: scannedResin.abbreviation });
+    }
+
+    if (product) {
+      const { barcode, entry } = product;
+      const resin = entry.resinCode ? this.getResinCode(entry.resinCode) : scannedResin;
+      return this.build(result, evidence, {
+        decidedBy: 'barcode',
+        category: entry.category,
+        label: entry.name,
+        confidence: BARCODE_CONFIDENCE,
+        reasoning: i18n.t('reasoning.barcode', { barcode, name: entry.name }),
+        resin: entry.category === WasteCategory.PLASTIC ? resin : undefined
+      });
+    }
+
+    if (scannedResin) {
+      return this.build(result, evidence, {
+        decidedBy: 'resin-code',
+        category: WasteCategory.PLASTIC,
+        label: `${scannedResin.name} (${scannedResin.abbreviation} #${scannedResin.code})`,
+        confidence: RESIN_CODE_CONFIDENCE,
+        reasoning: i18n.t('reasoning.resinCode', { code: scannedResin.code, abbreviation: scannedResin.abbreviation }),
+        resin: scannedResin
+      });
+    }
+
+    return { ...result, evidence, decidedBy: 'vision' };
+  }
+
+  private build(
+    result: ClassificationResult,
+    evidence: Evidence[],
+    decision: {
+      decidedBy: 'barcode' | 'resin-code';
+      category: WasteCategory;
+      label: string;
+      confidence: number;
+      reasoning: string;
+      resin?: ResinCodeEntry;
+    }
+  ): ClassificationResult {
+    const pack = rulePackManager.getActivePack();
+    const mapping = pack.categories.find(c => c.category === decision.category);
+    const { resin } = decision;
+    const accepted = resin ? (pack.acceptedResinCodes ?? DEFAULT_ACCEPTED_RESIN_CODES).includes(resin.code) : true;
+
+    const described = taxonomy.describeLabel(decision.label, decision.category, pack);
+    let { disposalInstructions } = described;
+    if (resin && !accepted) {
+      disposalInstructions = i18n.t('material.notAccepted', { abbreviation: resin.abbreviation, code: resin.code, pack: pack.name });
+    }
+
+    // The model's own verdict stays visible as a runner-up when the codes overrule it
+    const alternatives = result.alternatives.filter(alt => alt.category !== decision.category && alt.category !== result.category);
+    if (result.category !== decision.category && result.category !== WasteCategory.UNKNOWN) {
+      alternatives.unshift({ category: result.category, score: result.confidence });
+    }
+
+    return {
+      ...result,
+      category: decision.category,
+      label: decision.label,
+      confidence: Math.max(result.confidence, decision.confidence),
+      reasoning: i18n.t('reasoning.cameraSaw', { reasoning: decision.reasoning, label: result.label }),
+      ...described,
+      disposalInstructions,
+      alternatives,
+      binColor: resin && !accepted ? undefined : mapping?.binColor,
+      dropOffNotes: mapping?.dropOffNotes,
+      evidence,
+      decidedBy: decision.decidedBy,
+      // A code is conclusive, so the vision result's doubt no longer applies
+      uncertain: undefined,
+      material: resin ? { resinCode: resin.code, abbreviation: resin.abbreviation, name: resin.name, accepted } : undefined
+    };
+  }
+
+  private async readBarcodes(element: ImageSource): Promise<string[]> {
+    if (!this.barcodeDetector) return [];
+    // The detector has already verified check digits
+    const found = await this.barcodeDetector.detect(element);
+    return Array.from(new Set(found.map(barcode => barcode.rawValue)));
+  }
+
+  private async readResinCode(element: ImageSource): Promise<number | null> {
+    const worker = await this.getOcrWorker();
+    const { data } = await worker.recognize(toCanvas(element));
+    return parseResinCode(data.text);
+  }
+
+  private getOcrWorker(): Promise<Worker> {
+    if (!this.ocrWorker) {
+      this.ocrWorker = createWorker('eng')
+        .then(async worker => {
+          // Resin markings are short, scattered words rather than paragraphs
+          await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+          return worker;
+        })
+        .catch(err => {
+          this.ocrWorker = null;
+          throw err;
+        });
+    }
+    return this.ocrWorker;
+  }
+}
+
+export const materialScanner = new MaterialScanner();
@@ -0,0 +1,100 @@
+import { ModelProfile } from '../types';
+import { AUTO_PROFILE_BUDGET_MS, BENCHMARK_SHAPE, DEFAULT_MODEL_PROFILE_ID, MODEL_PROFILES, STORAGE_KEYS } from '../constants';
+
+type Listener = () => void;
+
+const { size, channels } = BENCHMARK_SHAPE;
+// Multiply-accumulates in the benchmark convolution, in millions
+const BENCHMARK_MMACS = (size * size * channels * 9 * channels) / 1e6;
+
+/** A rough per-image latency for the profile, scaled from the benchmark's throughput. */
+export const estimateLatencyMs = (profile: ModelProfile, benchmarkMs: number): number =>
+  benchmarkMs * (profile.mmacs / BENCHMARK_MMACS);
+
+/**
+ * The largest built-in profile expected to fit the latency budget, or the
+ * smallest one on a device too slow for any of them.
+ */
+export const chooseProfile = (profiles: ModelProfile[], benchmarkMs: number, budgetMs: number): ModelProfile => {
+  const candidates = profiles.filter(profile => !profile.modelUrl).sort((a, b) => a.mmacs - b.mmacs);
+  const fitting = candidates.filter(profile => estimateLatencyMs(profile, benchmarkMs) <= budgetMs);
+  return fitting[fitting.length - 1] ?? candidates[0];
+};
+
+/**
+ * Which MobileNet the on-device backend runs: the one the startup benchmark
+ * recommends, unless the user picked another in the diagnostics panel. The
+ * benchmark is kept, so the recommendation doesn't change between visits.
+ */
+class ModelProfiles {
+  private benchmarkMs: number | null;
+  private override: string | null;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    const stored = localStorage.getItem(STORAGE_KEYS.modelProfile);
+    this.override = stored && this.getProfile(stored) ? stored : null;
+    const benchmarkMs = Number(localStorage.getItem(STORAGE_KEYS.modelBenchmark));
+    this.benchmarkMs = Number.isFinite(benchmarkMs) && benchmarkMs > 0 ? benchmarkMs : null;
+  }
+
+  public getProfiles(): ModelProfile[] {
+    return [...MODEL_PROFILES];
+  }
+
+  public getProfile(id: string): ModelProfile | undefined {
+    return MODEL_PROFILES.find(profile => profile.id === id);
+  }
+
+  /** Median time of the startup benchmark convolution, once it has run. */
+  public getBenchmarkMs(): number | null {
+    return this.benchmarkMs;
+  }
+
+  public hasBenchmark(): boolean {
+    return this.benchmarkMs !== null;
+  }
+
+  public setBenchmarkMs(ms: number): void {
+    this.benchmarkMs = ms;
+    localStorage.setItem(STORAGE_KEYS.modelBenchmark, String(ms));
+    this.notify();
+  }
+
+  public getRecommended(): ModelProfile {
+    return this.benchmarkMs === null
+      ? this.getProfile(DEFAULT_MODEL_PROFILE_ID)!
+      : chooseProfile(MODEL_PROFILES, this.benchmarkMs, AUTO_PROFILE_BUDGET_MS);
+  }
+
+  /** The user's pick, or null to follow the recommendation. */
+  public getOverride(): ModelProfile | null {
+    return this.override ? this.getProfile(this.override) ?? null : null;
+  }
+
+  public setOverride(id: string | null): void {
+    if (id !== null && !this.getProfile(id)) throw new Error(`Unknown model profile "${id}".`);
+    this.override = id;
+    if (id) {
+      localStorage.setItem(STORAGE_KEYS.modelProfile, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.modelProfile);
+    }
+    this.notify();
+  }
+
+  public getActive(): ModelProfile {
+    return this.getOverride() ?? this.getRecommended();
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const modelProfiles = new ModelProfiles();
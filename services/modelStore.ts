@@ -0,0 +1,82 @@
+import * as tf from '@tensorflow/tfjs';
+
+type Listener = (key: string) => void;
+
+const toUrl = (key: string) => `indexeddb://${key}`;
+
+/**
+ * Keeps downloaded model weights in the browser's tf.io IndexedDB store so
+ * later loads work without any network.
+ */
+class ModelStore {
+  private cached = new Set<string>();
+  private listeners = new Set<Listener>();
+
+  public isCached(key: string): boolean {
+    return this.cached.has(key);
+  }
+
+  /** Like isCached, but also finds copies saved in earlier visits or by the inference worker. */
+  public async hasOfflineCopy(key: string): Promise<boolean> {
+    if (this.cached.has(key)) return true;
+    if (!(await this.exists(key))) return false;
+    this.markCached(key);
+    return true;
+  }
+
+  /**
+   * Loads a model from the offline store when a copy exists, otherwise from the
+   * network, saving the freshly downloaded graph for next time.
+   */
+  public async load<T>(
+    key: string,
+    fromStore: (url: string) => Promise<T>,
+    fromNetwork: () => Promise<T>,
+    // The model packages keep their GraphModel private, so callers expose it here
+    graphOf: (model: T) => tf.GraphModel
+  ): Promise<T> {
+    if (await this.exists(key)) {
+      try {
+        const model = await fromStore(toUrl(key));
+        this.markCached(key);
+        return model;
+      } catch (err) {
+        console.warn(`Offline copy of ${key} is unusable, downloading again:`, err);
+        await tf.io.removeModel(toUrl(key)).catch(() => undefined);
+      }
+    }
+
+    const model = await fromNetwork();
+    try {
+      await graphOf(model).save(toUrl(key));
+      this.markCached(key);
+    } catch (err) {
+      // Private browsing or a full disk: the app still works online
+      console.warn(`Could not save ${key} for offline use:`, err);
+    }
+    return model;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Also called on the main thread when the inference worker reports a saved model. */
+  public markCached(key: string): void {
+    if (this.cached.has(key)) return;
+    this.cached.add(key);
+    this.listeners.forEach(listener => listener(key));
+  }
+
+  private async exists(key: string): Promise<boolean> {
+    try {
+      const models = await tf.io.listModels();
+      return toUrl(key) in models;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const modelStore = new ModelStore();
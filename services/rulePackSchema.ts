@@ -0,0 +1,144 @@
+import { RulePack, RulePackCategory, RulePackTranslation, WasteCategory } from '../types';
+import { RULE_PACK_SCHEMA_VERSION } from '../constants';
+import { defaultTranslator, Translator } from './translator';
+
+export class RulePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RulePackError';
+  }
+}
+
+const VALID_CATEGORIES = Object.values(WasteCategory).filter(c => c !== WasteCategory.UNKNOWN) as string[];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTextMap = (value: unknown): value is Record<string, string> =>
+  isPlainObject(value) && Object.values(value).every(isNonEmptyString);
+
+/** Checks the optional per-locale text. Every field is optional, since English fills the gaps. */
+const validateTranslations = (name: string, raw: unknown, t: Translator['t']): Record<string, RulePackTranslation> | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isPlainObject(raw)) {
+    throw new RulePackError(t('rulePack.error.translations', { name }));
+  }
+
+  return Object.fromEntries(Object.entries(raw).map(([locale, entry]) => {
+    const where = `${name}, translations.${locale}`;
+    if (!isPlainObject(entry)) {
+      throw new RulePackError(t('rulePack.error.object', { where }));
+    }
+    if (entry.unknownInstructions !== undefined && !isNonEmptyString(entry.unknownInstructions)) {
+      throw new RulePackError(t('rulePack.error.text', { where, field: 'unknownInstructions' }));
+    }
+    if (entry.taxonomyInstructions !== undefined && !isTextMap(entry.taxonomyInstructions)) {
+      throw new RulePackError(t('rulePack.error.taxonomyInstructions', { where }));
+    }
+    if (entry.categories !== undefined && !isPlainObject(entry.categories)) {
+      throw new RulePackError(t('rulePack.error.translationCategories', { where }));
+    }
+    for (const [category, text] of Object.entries(entry.categories ?? {})) {
+      if (!VALID_CATEGORIES.includes(category)) {
+        throw new RulePackError(t('rulePack.error.category', { where, category, categories: VALID_CATEGORIES.join(', ') }));
+      }
+      if (!isPlainObject(text) ||
+        (text.instructions !== undefined && !isNonEmptyString(text.instructions)) ||
+        (text.dropOffNotes !== undefined && !isNonEmptyString(text.dropOffNotes)) ||
+        (text.keywords !== undefined && (!Array.isArray(text.keywords) || !text.keywords.every(isNonEmptyString)))) {
+        throw new RulePackError(t('rulePack.error.translationCategory', { where: `${where}.categories.${category}` }));
+      }
+    }
+    return [locale, entry as RulePackTranslation];
+  }));
+};
+
+/**
+ * Checks an untrusted JSON value against the rule-pack schema and returns it typed.
+ * Throws a RulePackError describing the first problem found, in the translator's language.
+ */
+export const validateRulePack = (raw: unknown, translator: Translator = defaultTranslator): RulePack => {
+  const { t } = translator;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new RulePackError(t('rulePack.error.notObject'));
+  }
+  const pack = raw as Record<string, unknown>;
+  const name = isNonEmptyString(pack.id) ? t('rulePack.error.named', { id: pack.id }) : t('rulePack.error.unnamed');
+
+  if (pack.schemaVersion !== RULE_PACK_SCHEMA_VERSION) {
+    throw new RulePackError(t('rulePack.error.schemaVersion', { name, version: String(pack.schemaVersion), supported: RULE_PACK_SCHEMA_VERSION }));
+  }
+  for (const field of ['id', 'name', 'region', 'version', 'unknownInstructions']) {
+    if (!isNonEmptyString(pack[field])) {
+      throw new RulePackError(t('rulePack.error.missingField', { name, field }));
+    }
+  }
+  if (!Array.isArray(pack.categories) || pack.categories.length === 0) {
+    throw new RulePackError(t('rulePack.error.noCategories', { name }));
+  }
+
+  const seen = new Set<string>();
+  const categories: RulePackCategory[] = pack.categories.map((entry, index) => {
+    const where = `${name}, categories[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      throw new RulePackError(t('rulePack.error.object', { where }));
+    }
+    const category = entry as Record<string, unknown>;
+
+    if (typeof category.category !== 'string' || !VALID_CATEGORIES.includes(category.category)) {
+      throw new RulePackError(t('rulePack.error.category', { where, category: String(category.category), categories: VALID_CATEGORIES.join(', ') }));
+    }
+    if (seen.has(category.category)) {
+      throw new RulePackError(t('rulePack.error.duplicate', { where, category: category.category }));
+    }
+    seen.add(category.category);
+
+    if (!Array.isArray(category.keywords) || category.keywords.length === 0 || !category.keywords.every(isNonEmptyString)) {
+      throw new RulePackError(t('rulePack.error.keywords', { where }));
+    }
+    if (!isNonEmptyString(category.instructions)) {
+      throw new RulePackError(t('rulePack.error.instructions', { where }));
+    }
+    if (typeof category.binColor !== 'string' || !HEX_COLOR.test(category.binColor)) {
+      throw new RulePackError(t('rulePack.error.binColor', { where }));
+    }
+    if (category.dropOffNotes !== undefined && typeof category.dropOffNotes !== 'string') {
+      throw new RulePackError(t('rulePack.error.text', { where, field: 'dropOffNotes' }));
+    }
+
+    return {
+      category: category.category as WasteCategory,
+      keywords: category.keywords as string[],
+      instructions: category.instructions,
+      binColor: category.binColor,
+      dropOffNotes: category.dropOffNotes as string | undefined
+    };
+  });
+
+  const resinCodes = pack.acceptedResinCodes;
+  if (resinCodes !== undefined && (!Array.isArray(resinCodes) || !resinCodes.every(code => Number.isInteger(code) && code >= 1 && code <= 7))) {
+    throw new RulePackError(t('rulePack.error.resinCodes', { name }));
+  }
+
+  const taxonomyInstructions = pack.taxonomyInstructions;
+  if (taxonomyInstructions !== undefined && !isTextMap(taxonomyInstructions)) {
+    throw new RulePackError(t('rulePack.error.taxonomyInstructions', { where: name }));
+  }
+
+  return {
+    schemaVersion: RULE_PACK_SCHEMA_VERSION,
+    id: pack.id as string,
+    name: pack.name as string,
+    region: pack.region as string,
+    version: pack.version as string,
+    unknownInstructions: pack.unknownInstructions as string,
+    categories,
+    acceptedResinCodes: resinCodes as number[] | undefined,
+    taxonomyInstructions: taxonomyInstructions as Record<string, string> | undefined,
+    translations: validateTranslations(name, pack.translations, t)
+  };
+};
@@ -0,0 +1,121 @@
+import { RulePack } from '../types';
+import { BUNDLED_RULE_PACKS, DEFAULT_RULE_PACK_ID, STORAGE_KEYS } from '../constants';
+import { RulePackError, validateRulePack } from './rulePackSchema';
+import { localizeRulePack } from './translator';
+import { i18n } from './i18n';
+
+export { RulePackError, validateRulePack };
+
+type Listener = (pack: RulePack) => void;
+
+class RulePackManager {
+  private bundled: RulePack[] = [];
+  private custom: RulePack[] = [];
+  private activeId: string = DEFAULT_RULE_PACK_ID;
+  private loadErrors: string[] = [];
+  private listeners = new Set<Listener>();
+  private localized: { source: RulePack; locale: string; pack: RulePack } | null = null;
+
+  constructor() {
+    this.bundled = this.validateAll(BUNDLED_RULE_PACKS);
+    this.custom = this.readCustomPacks();
+
+    const storedId = localStorage.getItem(STORAGE_KEYS.activeRulePack);
+    if (storedId && this.findPack(storedId)) {
+      this.activeId = storedId;
+    }
+    // The active pack's text is per language, so a language switch counts as a pack change
+    i18n.subscribe(() => this.notify());
+  }
+
+  public getAvailablePacks(): RulePack[] {
+    return [...this.bundled, ...this.custom];
+  }
+
+  /** Readable reasons for every pack that was rejected during startup. */
+  public getLoadErrors(): string[] {
+    return [...this.loadErrors];
+  }
+
+  /** The active pack in the UI language, with that language's keywords added. */
+  public getActivePack(): RulePack {
+    const source = this.findPack(this.activeId) ?? this.bundled[0];
+    const locale = i18n.getLocale();
+    if (this.localized?.source !== source || this.localized.locale !== locale) {
+      this.localized = { source, locale, pack: localizeRulePack(source, locale) };
+    }
+    return this.localized.pack;
+  }
+
+  public setActivePack(id: string): void {
+    if (!this.findPack(id)) {
+      throw new RulePackError(i18n.t('rulePack.error.notInstalled', { id }));
+    }
+    this.activeId = id;
+    localStorage.setItem(STORAGE_KEYS.activeRulePack, id);
+    this.notify();
+  }
+
+  /**
+   * Validates and installs a user-supplied pack, replacing any earlier custom
+   * pack with the same id. Bundled packs cannot be overridden.
+   */
+  public importPack(json: string): RulePack {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new RulePackError(i18n.t('rulePack.error.json'));
+    }
+
+    const pack = validateRulePack(raw, i18n.getTranslator());
+    if (this.bundled.some(p => p.id === pack.id)) {
+      throw new RulePackError(i18n.t('rulePack.error.reserved', { id: pack.id }));
+    }
+
+    this.custom = [...this.custom.filter(p => p.id !== pack.id), pack];
+    localStorage.setItem(STORAGE_KEYS.customRulePacks, JSON.stringify(this.custom));
+    this.setActivePack(pack.id);
+    return pack;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private findPack(id: string): RulePack | undefined {
+    return this.getAvailablePacks().find(p => p.id === id);
+  }
+
+  private readCustomPacks(): RulePack[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.customRulePacks);
+    if (!stored) return [];
+
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? this.validateAll(parsed) : [];
+    } catch {
+      this.loadErrors.push(i18n.t('rulePack.error.corrupted'));
+      return [];
+    }
+  }
+
+  private validateAll(raws: unknown[]): RulePack[] {
+    return raws.flatMap(raw => {
+      try {
+        return [validateRulePack(raw, i18n.getTranslator())];
+      } catch (err) {
+        this.loadErrors.push(err instanceof Error ? err.message : String(err));
+        return [];
+      }
+    });
+  }
+
+  private notify(): void {
+    const active = this.getActivePack();
+    this.listeners.forEach(listener => listener(active));
+  }
+}
+
+export const rulePackManager = new RulePackManager();
@@ -0,0 +1,107 @@
+import { BoundingBox, ClassificationResult, CropBox, DetectionResult, HistoryFilter, ScanRecord, ScanSource, WasteCategory } from '../types';
+import { HISTORY_THUMBNAIL_SIZE } from '../constants';
+import * as db from './db';
+import { prepareImage } from './imagePreprocessor';
+
+const STORE = 'scans';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ThumbnailSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+// Maps a result's box into the thumbnail source's pixels when they differ
+type BoxMapper = (box: BoundingBox) => BoundingBox;
+type Listener = () => void;
+
+const getSize = (source: ThumbnailSource) => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+};
+
+class ScanHistory {
+  private listeners = new Set<Listener>();
+
+  /**
+   * Stores one history entry per result. Results that carry a detection box
+   * get a thumbnail of just that region.
+   */
+  public async record(
+    source: ScanSource,
+    image: ThumbnailSource,
+    results: (ClassificationResult | DetectionResult)[],
+    toImage: BoxMapper = box => box
+  ): Promise<void> {
+    const timestamp = Date.now();
+    for (const result of results) {
+      const entry: ScanRecord = {
+        id: crypto.randomUUID(),
+        timestamp,
+        thumbnail: this.createThumbnail(image, result, toImage),
+        result,
+        source
+      };
+      await db.put(STORE, entry);
+    }
+    this.notify();
+  }
+
+  /**
+   * Thumbnails an upload from the same upright, downscaled canvas it was
+   * classified from, so a 48MP photo or a HEIC never decodes at full size.
+   * Detection boxes arrive in the photo's pixels and are mapped onto it.
+   */
+  public async recordFile(file: File, results: (ClassificationResult | DetectionResult)[], crop?: CropBox): Promise<void> {
+    const { canvas, fromOriginal } = await prepareImage(file, crop);
+    await this.record('upload', canvas, results, fromOriginal);
+  }
+
+  public async list(filter: HistoryFilter = {}): Promise<ScanRecord[]> {
+    const scans = await db.getAll<ScanRecord>(STORE);
+    return scans
+      .filter(scan =>
+        (!filter.category || scan.result.category === filter.category) &&
+        (filter.from === undefined || scan.timestamp >= filter.from) &&
+        (filter.to === undefined || scan.timestamp <= filter.to))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /** Counts scans per category over the trailing window of `days`. */
+  public async getCategoryCounts(days: number): Promise<Record<WasteCategory, number>> {
+    const counts = Object.fromEntries(Object.values(WasteCategory).map(c => [c, 0])) as Record<WasteCategory, number>;
+    const scans = await this.list({ from: Date.now() - days * DAY_MS });
+    scans.forEach(scan => counts[scan.result.category]++);
+    return counts;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await db.remove(STORE, id);
+    this.notify();
+  }
+
+  public async clear(): Promise<void> {
+    await db.clear(STORE);
+    this.notify();
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private createThumbnail(image: ThumbnailSource, result: ClassificationResult | DetectionResult, toImage: BoxMapper): string {
+    const { width, height } = getSize(image);
+    const box = 'box' in result ? toImage(result.box) : { x: 0, y: 0, width, height };
+    const scale = Math.min(1, HISTORY_THUMBNAIL_SIZE / Math.max(box.width, box.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(box.width * scale));
+    canvas.height = Math.max(1, Math.round(box.height * scale));
+    canvas.getContext('2d')!.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const scanHistory = new ScanHistory();
@@ -0,0 +1,157 @@
+import { i18n } from './i18n';
+
+// Speech recognition is still prefixed in Chromium and missing from TypeScript's DOM typings
+interface RecognitionAlternative {
+  transcript: string;
+}
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<RecognitionAlternative> & { isFinal: boolean }>;
+}
+interface RecognitionErrorEvent {
+  error: string;
+}
+interface RecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+type RecognitionConstructor = new () => RecognitionLike;
+
+export type ListenErrorKind = 'not-allowed' | 'no-microphone' | 'network' | 'unsupported';
+
+export class ListenError extends Error {
+  constructor(public readonly kind: ListenErrorKind) {
+    super(i18n.t(`handsFree.error.${kind}`));
+    this.name = 'ListenError';
+  }
+}
+
+const getRecognition = (): RecognitionConstructor | undefined => {
+  const scope = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+// Errors that end a session for good; 'no-speech' and 'aborted' just restart it
+const FATAL_ERRORS: Record<string, ListenErrorKind> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'audio-capture': 'no-microphone',
+  network: 'network',
+  'language-not-supported': 'unsupported'
+};
+
+/**
+ * Spoken output through speech synthesis and spoken commands through speech
+ * recognition, both in the UI language. Recognition runs continuously until
+ * stopped and ignores what it hears while the app is speaking, so the
+ * announcements don't trigger commands of their own.
+ */
+class Speech {
+  private lastUtterance: string | null = null;
+  private recognition: RecognitionLike | null = null;
+  private onTranscript: ((transcript: string) => void) | null = null;
+  private onError: ((err: ListenError) => void) | null = null;
+
+  constructor() {
+    // A running session keeps the language it started with, so restart it on a switch
+    i18n.subscribe(() => this.recognition?.abort());
+  }
+
+  public canSpeak(): boolean {
+    return 'speechSynthesis' in window;
+  }
+
+  public canListen(): boolean {
+    return !!getRecognition();
+  }
+
+  /** Reads the text aloud, cutting off whatever was being said. */
+  public speak(text: string): void {
+    this.lastUtterance = text;
+    if (!this.canSpeak()) return;
+
+    const locale = i18n.getLocale();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    const voice = speechSynthesis.getVoices().find(v => v.lang.toLowerCase().startsWith(locale));
+    if (voice) utterance.voice = voice;
+
+    speechSynthesis.cancel();
+    speechSynthesis.speak(utterance);
+  }
+
+  /** Says the last announcement again; false when there is none yet. */
+  public repeat(): boolean {
+    if (!this.lastUtterance) return false;
+    this.speak(this.lastUtterance);
+    return true;
+  }
+
+  public cancel(): void {
+    if (this.canSpeak()) speechSynthesis.cancel();
+  }
+
+  public isListening(): boolean {
+    return this.recognition !== null;
+  }
+
+  /**
+   * Starts listening for final transcripts. Throws ListenError when the
+   * browser has no recognition; later failures go to `onError` and end the session.
+   */
+  public listen(onTranscript: (transcript: string) => void, onError: (err: ListenError) => void): void {
+    const Recognition = getRecognition();
+    if (!Recognition) throw new ListenError('unsupported');
+
+    this.stopListening();
+    this.onTranscript = onTranscript;
+    this.onError = onError;
+    this.start(Recognition);
+  }
+
+  public stopListening(): void {
+    const recognition = this.recognition;
+    this.recognition = null;
+    this.onTranscript = null;
+    this.onError = null;
+    recognition?.abort();
+  }
+
+  private start(Recognition: RecognitionConstructor): void {
+    const recognition = new Recognition();
+    recognition.lang = i18n.getLocale();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    recognition.onresult = event => {
+      if (this.recognition !== recognition || (this.canSpeak() && speechSynthesis.speaking)) return;
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal && result[0]) this.onTranscript?.(result[0].transcript);
+      }
+    };
+    recognition.onerror = event => {
+      const kind = FATAL_ERRORS[event.error];
+      if (!kind || this.recognition !== recognition) return;
+      const onError = this.onError;
+      this.stopListening();
+      onError?.(new ListenError(kind));
+    };
+    // Browsers end a continuous session after a pause or a language switch; pick it back up
+    recognition.onend = () => {
+      if (this.recognition === recognition) this.start(Recognition);
+    };
+
+    this.recognition = recognition;
+    recognition.start();
+  }
+}
+
+export const speech = new Speech();
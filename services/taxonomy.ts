@@ -0,0 +1,201 @@
+import { HazardFlag, RulePack, TaxonomyRef, TaxonomyTranslation, TaxonomyVariant, WasteCategory, WasteTaxonomy } from '../types';
+import { TAXONOMY } from '../constants';
+
+export type TaxonomyLevel = 'category' | 'subcategory' | 'item';
+
+/** A taxonomy entry flattened with its full id and a link to its parent. */
+export interface TaxonomyNode {
+  id: string;
+  name: string;
+  level: TaxonomyLevel;
+  category: WasteCategory;
+  parentId?: string;
+  keywords: string[];
+  instructions?: string;
+  hazards: HazardFlag[];
+  color?: string;
+  contaminated?: TaxonomyVariant;
+}
+
+export interface TaxonomyMatch {
+  node: TaxonomyNode;
+  keyword: string;
+  // True when the keyword belongs to the node's contaminated variant
+  contaminated: boolean;
+}
+
+/** The taxonomy-derived fields of a ClassificationResult. */
+export interface TaxonomyDescription {
+  path: TaxonomyRef[];
+  hazards: HazardFlag[];
+  contaminated: boolean;
+  disposalInstructions: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word boundaries that also hold for accented letters, which \b treats as non-word characters
+export const keywordPattern = (keyword: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.toLowerCase())}(?![\\p{L}\\p{N}])`, 'u');
+
+const matchesKeyword = (lowerLabel: string, keyword: string) => keywordPattern(keyword).test(lowerLabel);
+
+/**
+ * Lookup over the category -> subcategory -> item tree. It has no DOM or
+ * storage dependencies, so the headless benchmark uses it too.
+ */
+export class Taxonomy {
+  private nodes = new Map<string, TaxonomyNode>();
+
+  constructor(private source: WasteTaxonomy, translations: Record<string, TaxonomyTranslation> = {}) {
+    this.build(translations);
+  }
+
+  /**
+   * Rebuilds the tree with localized names and instructions. Translated
+   * keywords are matched in addition to the English ones, so labels typed in
+   * the UI language still find their item.
+   */
+  public setTranslations(translations: Record<string, TaxonomyTranslation>): void {
+    this.nodes.clear();
+    this.build(translations);
+  }
+
+  public getNode(id: string): TaxonomyNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  public getRoot(category: WasteCategory): TaxonomyNode | undefined {
+    return this.nodes.get(category.toLowerCase());
+  }
+
+  /** Nodes from the category root down to the given node. */
+  public getPath(node: TaxonomyNode): TaxonomyNode[] {
+    const path: TaxonomyNode[] = [];
+    let current: TaxonomyNode | undefined = node;
+    while (current) {
+      path.unshift(current);
+      current = current.parentId ? this.nodes.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  /**
+   * Finds the item whose keyword matches the label on word boundaries. The
+   * longest keyword wins, so 'notebook computer' beats 'notebook'.
+   */
+  public match(label: string): TaxonomyMatch | null {
+    const lowerLabel = label.toLowerCase();
+    let best: TaxonomyMatch | null = null;
+
+    for (const node of this.nodes.values()) {
+      const candidates = [
+        ...node.keywords.map(keyword => ({ keyword, contaminated: false })),
+        ...(node.contaminated?.keywords ?? []).map(keyword => ({ keyword, contaminated: true }))
+      ];
+      for (const { keyword, contaminated } of candidates) {
+        if (matchesKeyword(lowerLabel, keyword) && (!best || keyword.length > best.keyword.length)) {
+          best = { node, keyword, contaminated };
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Resolves the path, hazards and instructions for a node (or a bare
+   * category). The deepest level with instructions wins, and the rule pack
+   * can override any node; the pack's category text is the fallback.
+   */
+  public describe(target: TaxonomyNode | WasteCategory, pack: RulePack, contaminated = false): TaxonomyDescription {
+    const node = typeof target === 'string' ? this.getRoot(target) : target;
+    const category = typeof target === 'string' ? target : target.category;
+    const fallback = pack.categories.find(c => c.category === category)?.instructions ?? pack.unknownInstructions;
+
+    if (!node) {
+      return { path: [], hazards: [], contaminated: false, disposalInstructions: fallback };
+    }
+
+    const path = this.getPath(node);
+    const variant = contaminated ? node.contaminated : undefined;
+    const specific = [...path].reverse()
+      .map(step => pack.taxonomyInstructions?.[step.id] ?? step.instructions)
+      .find((text): text is string => !!text);
+
+    return {
+      path: path.map(step => ({ id: step.id, name: step === node && variant ? variant.name : step.name })),
+      hazards: Array.from(new Set(path.flatMap(step => step.hazards))),
+      contaminated: !!variant,
+      disposalInstructions: variant?.instructions ?? specific ?? fallback
+    };
+  }
+
+  /**
+   * Describes a free-text label whose category was decided elsewhere (the
+   * cloud model, a barcode). A matching item is only used if it agrees.
+   */
+  public describeLabel(label: string, category: WasteCategory, pack: RulePack): TaxonomyDescription {
+    const item = this.match(label);
+    return item && item.node.category === category
+      ? this.describe(item.node, pack, item.contaminated)
+      : this.describe(category, pack);
+  }
+
+  /** The most specific colour along a result's path. */
+  public getColor(category: WasteCategory, path?: TaxonomyRef[]): string | undefined {
+    const steps = path?.length ? path : [{ id: category.toLowerCase(), name: category }];
+    return [...steps].reverse().map(step => this.nodes.get(step.id)?.color).find(Boolean);
+  }
+
+  private build(translations: Record<string, TaxonomyTranslation>): void {
+    const keywordsOf = (english: string[], translated?: string[]) => (translated ? [...english, ...translated] : english);
+
+    for (const root of this.source.categories) {
+      const rootId = root.category.toLowerCase();
+      this.add({ id: rootId, name: translations[rootId]?.name ?? root.category, level: 'category', category: root.category, keywords: [], hazards: [], color: root.color });
+
+      for (const sub of root.subcategories) {
+        const subId = `${rootId}/${sub.id}`;
+        const subText = translations[subId];
+        this.add({
+          id: subId,
+          name: subText?.name ?? sub.name,
+          level: 'subcategory',
+          category: root.category,
+          parentId: rootId,
+          keywords: [],
+          instructions: subText?.instructions ?? sub.instructions,
+          hazards: sub.hazards ?? [],
+          color: sub.color
+        });
+
+        for (const item of sub.items) {
+          const itemId = `${subId}/${item.id}`;
+          const itemText = translations[itemId];
+          const variantText = itemText?.contaminated;
+          this.add({
+            id: itemId,
+            name: itemText?.name ?? item.name,
+            level: 'item',
+            category: root.category,
+            parentId: subId,
+            keywords: keywordsOf(item.keywords, itemText?.keywords),
+            instructions: itemText?.instructions ?? item.instructions,
+            hazards: item.hazards ?? [],
+            contaminated: item.contaminated && {
+              name: variantText?.name ?? item.contaminated.name,
+              keywords: item.contaminated.keywords && keywordsOf(item.contaminated.keywords, variantText?.keywords),
+              instructions: variantText?.instructions ?? item.contaminated.instructions
+            }
+          });
+        }
+      }
+    }
+  }
+
+  private add(node: TaxonomyNode): void {
+    this.nodes.set(node.id, node);
+  }
+}
+
+export const taxonomy = new Taxonomy(TAXONOMY);
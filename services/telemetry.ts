@@ -0,0 +1,80 @@
+import { LatencyStats, ModelProfile } from '../types';
+import { DEFAULT_LIVE_SCAN_SETTINGS, LATENCY_WINDOW, LIVE_SCAN_ADAPTIVE_RANGE_MS, LIVE_SCAN_IDLE_RATIO } from '../constants';
+import { TfBackendName } from './inference/protocol';
+
+export type InferenceKind = 'classify' | 'detect';
+
+export interface ModelLoadInfo {
+  profile: ModelProfile;
+  backend: TfBackendName;
+  // Download or IndexedDB restore plus warm-up; 0 when the model was already in memory
+  loadMs: number;
+  // False when the engine fell back to the main thread
+  inWorker: boolean;
+}
+
+type Listener = () => void;
+
+export const summarizeLatency = (samples: number[]): LatencyStats | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: samples.length,
+    lastMs: samples[samples.length - 1],
+    meanMs: samples.reduce((sum, ms) => sum + ms, 0) / samples.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]
+  };
+};
+
+/** Pause between Live Scan frames for a measured latency, or the default before any frame was timed. */
+export const adaptiveIntervalMs = (stats: LatencyStats | null): number => {
+  if (!stats) return DEFAULT_LIVE_SCAN_SETTINGS.intervalMs;
+  const [min, max] = LIVE_SCAN_ADAPTIVE_RANGE_MS;
+  return Math.round(Math.min(max, Math.max(min, stats.meanMs * LIVE_SCAN_IDLE_RATIO)));
+};
+
+/**
+ * On-device performance figures for the diagnostics panel and the adaptive
+ * Live Scan interval. Nothing here leaves the device.
+ */
+class Telemetry {
+  private load: ModelLoadInfo | null = null;
+  private samples: Record<InferenceKind, number[]> = { classify: [], detect: [] };
+  private listeners = new Set<Listener>();
+
+  public getLoad(): ModelLoadInfo | null {
+    return this.load;
+  }
+
+  /** A newly loaded model starts its latency figures afresh. */
+  public recordLoad(info: ModelLoadInfo): void {
+    this.load = info;
+    this.samples = { classify: [], detect: [] };
+    this.notify();
+  }
+
+  /** Time from handing a frame to the engine until its predictions came back. */
+  public recordInference(kind: InferenceKind, ms: number): void {
+    this.samples[kind] = [...this.samples[kind], ms].slice(-LATENCY_WINDOW);
+    this.notify();
+  }
+
+  public getLatency(kind: InferenceKind): LatencyStats | null {
+    return summarizeLatency(this.samples[kind]);
+  }
+
+  public getFrameIntervalMs(kind: InferenceKind): number {
+    return adaptiveIntervalMs(this.getLatency(kind));
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const telemetry = new Telemetry();
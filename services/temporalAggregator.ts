@@ -0,0 +1,103 @@
+import { ClassificationResult, LiveScanSettings, LiveScanState, WasteCategory } from '../types';
+import { DEFAULT_LIVE_SCAN_SETTINGS, STORAGE_KEYS } from '../constants';
+
+type NumericSetting = Exclude<keyof LiveScanSettings, 'adaptiveInterval'>;
+
+const LIMITS: Record<NumericSetting, [number, number]> = {
+  intervalMs: [200, 5000],
+  windowSize: [1, 30],
+  stableFrames: [1, 30],
+  minConfidence: [0, 1]
+};
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+export const sanitizeLiveScanSettings = (raw: Partial<LiveScanSettings>): LiveScanSettings => {
+  const settings = { ...DEFAULT_LIVE_SCAN_SETTINGS };
+  for (const key of Object.keys(LIMITS) as NumericSetting[]) {
+    const value = raw[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      settings[key] = clamp(value, LIMITS[key]);
+    }
+  }
+  if (typeof raw.adaptiveInterval === 'boolean') settings.adaptiveInterval = raw.adaptiveInterval;
+  // A category can't be stable for more frames than the window remembers
+  settings.stableFrames = Math.min(settings.stableFrames, settings.windowSize);
+  return settings;
+};
+
+export const loadLiveScanSettings = (): LiveScanSettings => {
+  try {
+    return sanitizeLiveScanSettings(JSON.parse(localStorage.getItem(STORAGE_KEYS.liveScanSettings) ?? '{}'));
+  } catch {
+    return { ...DEFAULT_LIVE_SCAN_SETTINGS };
+  }
+};
+
+export const saveLiveScanSettings = (settings: LiveScanSettings): void => {
+  localStorage.setItem(STORAGE_KEYS.liveScanSettings, JSON.stringify(settings));
+};
+
+/**
+ * Smooths per-frame Live Scan results. Recent frames vote (weighted by
+ * confidence) and a category is only reported once it has led for
+ * `stableFrames` consecutive frames, which stops the card flickering.
+ */
+export class TemporalAggregator {
+  private frames: (ClassificationResult | null)[] = [];
+  private leader: WasteCategory | null = null;
+  private streak = 0;
+  private locked: ClassificationResult | null = null;
+
+  constructor(private settings: LiveScanSettings) {}
+
+  public configure(settings: LiveScanSettings): void {
+    this.settings = settings;
+    this.frames = this.frames.slice(-settings.windowSize);
+  }
+
+  public reset(): void {
+    this.frames = [];
+    this.leader = null;
+    this.streak = 0;
+    this.locked = null;
+  }
+
+  public push(frame: ClassificationResult): LiveScanState {
+    const { windowSize, stableFrames, minConfidence } = this.settings;
+
+    const counted = frame.confidence >= minConfidence && frame.category !== WasteCategory.UNKNOWN;
+    this.frames = [...this.frames, counted ? frame : null].slice(-windowSize);
+
+    const votes = new Map<WasteCategory, number>();
+    for (const entry of this.frames) {
+      if (entry) votes.set(entry.category, (votes.get(entry.category) ?? 0) + entry.confidence);
+    }
+    const ranked = Array.from(votes.entries()).sort((a, b) => b[1] - a[1]);
+    const leader = ranked.length > 0 ? ranked[0][0] : null;
+
+    this.streak = leader === this.leader ? this.streak + 1 : 1;
+    this.leader = leader;
+
+    const previous = this.locked;
+    if (this.streak >= stableFrames) {
+      this.locked = leader ? this.summarize(leader) : null;
+    }
+
+    const changed = previous?.category !== this.locked?.category;
+    return {
+      result: this.locked,
+      locked: this.locked !== null && this.locked.category === leader,
+      stability: Math.min(1, this.streak / stableFrames),
+      changed
+    };
+  }
+
+  /** Latest frame for the category, with confidence averaged over its window votes. */
+  private summarize(category: WasteCategory): ClassificationResult {
+    const matching = this.frames.filter((f): f is ClassificationResult => f?.category === category);
+    const latest = matching[matching.length - 1];
+    const average = matching.reduce((sum, f) => sum + f.confidence, 0) / matching.length;
+    return { ...latest, confidence: average };
+  }
+}
@@ -0,0 +1,83 @@
+import { HazardFlag, RulePack, WasteCategory } from '../types';
+import { DEFAULT_LOCALE, LOCALE_BUNDLES } from '../constants';
+
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * String lookup and number formatting for one locale. Has no DOM or storage
+ * dependencies, so the mapping code and the headless benchmark can use it.
+ */
+export interface Translator {
+  locale: string;
+  // Looks up a UI string and fills {placeholders}; a missing key falls back to English
+  t: (key: string, params?: TranslationParams) => string;
+  category: (category: WasteCategory) => string;
+  hazard: (hazard: HazardFlag) => { title: string; message: string };
+  percent: (value: number) => string;
+  number: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const createTranslator = (locale: string): Translator => {
+  const bundle = LOCALE_BUNDLES[locale] ?? LOCALE_BUNDLES[DEFAULT_LOCALE];
+  const fallback = LOCALE_BUNDLES[DEFAULT_LOCALE];
+  const percentFormat = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+
+  const t = (key: string, params?: TranslationParams) => {
+    const template = bundle.strings[key] ?? fallback.strings[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+  };
+
+  return {
+    locale,
+    t,
+    category: category => t(`category.${category}`),
+    hazard: hazard => ({ title: t(`hazard.${hazard}.title`), message: t(`hazard.${hazard}.message`) }),
+    percent: value => percentFormat.format(value),
+    number: (value, options) => new Intl.NumberFormat(locale, options).format(value)
+  };
+};
+
+// Used wherever no locale has been chosen, e.g. by the benchmark CLI
+export const defaultTranslator = createTranslator(DEFAULT_LOCALE);
+
+/**
+ * Picks the first supported locale from a preference list such as
+ * navigator.languages; "de-AT" is served by the "de" bundle.
+ */
+export const matchLocale = (preferred: readonly string[]): string => {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0];
+    if (LOCALE_BUNDLES[language]) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * Returns the pack with its text swapped for the locale's translation and
+ * the locale's synonyms added to each category's keywords. Anything the pack
+ * doesn't translate keeps its English text: a regional rule in the wrong
+ * language beats generic advice that may be wrong for the region.
+ */
+export const localizeRulePack = (pack: RulePack, locale: string): RulePack => {
+  const translation = pack.translations?.[locale];
+  const synonyms = LOCALE_BUNDLES[locale]?.keywords ?? {};
+  if (!translation && Object.keys(synonyms).length === 0) return pack;
+
+  return {
+    ...pack,
+    unknownInstructions: translation?.unknownInstructions ?? pack.unknownInstructions,
+    categories: pack.categories.map(mapping => {
+      const text = translation?.categories?.[mapping.category];
+      return {
+        ...mapping,
+        keywords: Array.from(new Set([...mapping.keywords, ...(synonyms[mapping.category] ?? []), ...(text?.keywords ?? [])])),
+        instructions: text?.instructions ?? mapping.instructions,
+        dropOffNotes: text?.dropOffNotes ?? mapping.dropOffNotes
+      };
+    }),
+    taxonomyInstructions: translation?.taxonomyInstructions
+      ? { ...pack.taxonomyInstructions, ...translation.taxonomyInstructions }
+      : pack.taxonomyInstructions
+  };
+};
@@ -1,109 +1,229 @@
+import { ClassificationResult, ClassifierBackend, ClassifyOptions, DetectionResult, ImageSource, ModelProfile, PreprocessOptions, WasteCategory } from '../types';
+import { DEFAULT_ABSTAIN_THRESHOLD, IMPACT_TABLE, STORAGE_KEYS } from '../constants';
+import { rulePackManager } from './rulePacks';
+import { mobilenetBackend } from './backends/mobilenetBackend';
+import { geminiBackend } from './backends/geminiBackend';
+import { materialScanner } from './materialScanner';
+import { taxonomy } from './taxonomy';
+import { i18n } from './i18n';
+import { prepareImage } from './imagePreprocessor';
+import { getAugmentedViews, mergeViewResults } from './augmentation';
+import { withAbstention } from './labelMapping';
+import { withImpact } from './impact';
+import { inferenceClient } from './inference/inferenceClient';
+import { modelProfiles } from './modelProfiles';
+import { telemetry } from './telemetry';
+import { TfBackendName } from './inference/protocol';
 
-import * as tf from '@tensorflow/tfjs';
-import * as mobilenet from '@tensorflow-models/mobilenet';
-import { WasteCategory, ClassificationResult } from '../types';
-import { WASTE_MAPPINGS, UNKNOWN_INSTRUCTIONS } from '../constants';
+type Listener = (backend: ClassifierBackend) => void;
 
+/**
+ * Public entry point for classification. Delegates to the active backend —
+ * on-device MobileNet by default — so callers don't care which one runs.
+ */
 class WasteClassifier {
-  private model: mobilenet.MobileNet | null = null;
-  private isModelLoading: boolean = false;
-
-  public async loadModel(): Promise<void> {
-    if (this.model) return;
-    if (this.isModelLoading) return;
-
-    this.isModelLoading = true;
-    try {
-      // Initialize TensorFlow.js environment
-      await tf.ready();
-      // Load the lightweight MobileNet v2 model (approx 15MB)
-      this.model = await mobilenet.load({
-        version: 2,
-        alpha: 1.0
-      });
-      console.log('Local MobileNet model loaded successfully.');
-    } catch (error) {
-      console.error('Error loading MobileNet model:', error);
-      throw new Error('Failed to initialize local AI engine. Check your internet for the initial download.');
-    } finally {
-      this.isModelLoading = false;
+  private backends: ClassifierBackend[] = [mobilenetBackend, geminiBackend];
+  private active: ClassifierBackend = mobilenetBackend;
+  private listeners = new Set<Listener>();
+  private abstainThreshold = DEFAULT_ABSTAIN_THRESHOLD;
+
+  constructor() {
+    // Cloud consent and the backend choice only last for the browser session
+    const storedId = sessionStorage.getItem(STORAGE_KEYS.activeBackend);
+    const stored = this.backends.find(b => b.id === storedId);
+    if (stored && stored.isAvailable() && (stored.privacy === 'on-device' || this.hasCloudConsent())) {
+      this.active = stored;
+    }
+    const storedThreshold = localStorage.getItem(STORAGE_KEYS.abstainThreshold);
+    if (storedThreshold !== null && Number(storedThreshold) >= 0 && Number(storedThreshold) <= 1) {
+      this.abstainThreshold = Number(storedThreshold);
     }
   }
 
-  public async classifyElement(element: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement): Promise<ClassificationResult> {
-    if (!this.model) {
-      await this.loadModel();
+  public getBackends(): ClassifierBackend[] {
+    return [...this.backends];
+  }
+
+  public getActiveBackend(): ClassifierBackend {
+    return this.active;
+  }
+
+  public hasCloudConsent(): boolean {
+    return sessionStorage.getItem(STORAGE_KEYS.cloudOptIn) === 'true';
+  }
+
+  /** Records the user's explicit opt-in to sending images off the device for this session. */
+  public grantCloudConsent(): void {
+    sessionStorage.setItem(STORAGE_KEYS.cloudOptIn, 'true');
+  }
+
+  public async setBackend(id: string): Promise<void> {
+    const backend = this.backends.find(b => b.id === id);
+    if (!backend) throw new Error(i18n.t('backend.error.unknown', { id }));
+    if (!backend.isAvailable()) throw new Error(i18n.t('backend.error.unavailable', { name: backend.displayName }));
+    if (backend.privacy === 'cloud' && !this.hasCloudConsent()) {
+      throw new Error(i18n.t('backend.error.consent'));
     }
-    
-    if (!this.model) throw new Error('Model initialization failed');
-
-    try {
-      // Local inference happens purely on the device CPU/GPU
-      const predictions = await this.model.classify(element);
-      
-      if (!predictions || predictions.length === 0) {
-        return this.getUnknownResult();
+
+    await backend.load();
+    this.active = backend;
+    sessionStorage.setItem(STORAGE_KEYS.activeBackend, id);
+    this.listeners.forEach(listener => listener(backend));
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public loadModel(): Promise<void> {
+    return this.active.load();
+  }
+
+  /** The TensorFlow.js backend the on-device models run on, once loaded. */
+  public getTfBackend(): TfBackendName | null {
+    return inferenceClient.getBackend();
+  }
+
+  /** The MobileNet profile the on-device backend runs, or will run once loaded. */
+  public getModelProfile(): ModelProfile {
+    return telemetry.getLoad()?.profile ?? modelProfiles.getActive();
+  }
+
+  /**
+   * Picks a MobileNet profile, or null for the benchmark's recommendation,
+   * and loads it. Throws when the pick couldn't be loaded and another was used.
+   */
+  public async setModelProfile(id: string | null): Promise<void> {
+    const previous = modelProfiles.getOverride()?.id ?? null;
+    modelProfiles.setOverride(id);
+    const wanted = modelProfiles.getActive();
+    if (wanted.id !== telemetry.getLoad()?.profile.id) {
+      try {
+        await inferenceClient.reload();
+      } catch (err) {
+        // Keep scanning with the model that worked, e.g. when the new one can't be downloaded
+        modelProfiles.setOverride(previous);
+        await inferenceClient.reload();
+        throw err;
+      } finally {
+        // Results on screen came from the previous model
+        this.listeners.forEach(listener => listener(this.active));
       }
-      
-      const topResult = predictions[0];
-      return this.mapLabelToWaste(topResult.className, topResult.probability);
-    } catch (err) {
-      console.error('Inference error:', err);
-      throw new Error('Neural analysis failed');
+    }
+    const loaded = this.getModelProfile();
+    if (loaded.id !== wanted.id) {
+      throw new Error(i18n.t('diagnostics.error.fallback', { wanted: wanted.name, loaded: loaded.name }));
     }
   }
 
-  public async classify(file: File): Promise<ClassificationResult> {
-    const imageUrl = URL.createObjectURL(file);
-    const img = new Image();
-    img.src = imageUrl;
-
-    return new Promise((resolve, reject) => {
-      img.onload = async () => {
-        try {
-          const result = await this.classifyElement(img);
-          URL.revokeObjectURL(imageUrl);
-          resolve(result);
-        } catch (err) {
-          URL.revokeObjectURL(imageUrl);
-          reject(err);
-        }
-      };
-      img.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        reject(new Error('Failed to process image file'));
-      };
-    });
-  }
-
-  private mapLabelToWaste(label: string, confidence: number): ClassificationResult {
-    const lowerLabel = label.toLowerCase();
-    
-    // Rule-based mapping from ImageNet labels to our waste categories
-    for (const mapping of WASTE_MAPPINGS) {
-      const match = mapping.keywords.find(keyword => lowerLabel.includes(keyword.toLowerCase()));
-      if (match) {
-        return {
-          category: mapping.category,
-          confidence,
-          label: label.split(',')[0], // Take first alias
-          reasoning: `Identified as '${label.split(',')[0]}' which typically falls under ${mapping.category}.`,
-          disposalInstructions: mapping.instructions
-        };
-      }
+  /** Confidence below which results become "uncertain" with the top two bins. */
+  public getAbstainThreshold(): number {
+    return this.abstainThreshold;
+  }
+
+  public setAbstainThreshold(threshold: number): void {
+    this.abstainThreshold = Math.min(1, Math.max(0, threshold));
+    localStorage.setItem(STORAGE_KEYS.abstainThreshold, String(this.abstainThreshold));
+  }
+
+  /**
+   * The last step for every result: marks it uncertain below the abstain
+   * threshold (or clears a stale mark) and estimates the impact of sorting it.
+   */
+  public finalize<T extends ClassificationResult>(result: T): T {
+    return withImpact(withAbstention(result, this.abstainThreshold, rulePackManager.getActivePack()), IMPACT_TABLE);
+  }
+
+  public async classifyElement(element: ImageSource, options?: ClassifyOptions): Promise<ClassificationResult> {
+    return this.finalize(await this.active.classifyElement(element, options));
+  }
+
+  /** Drops queued camera frames so a stopped or reconfigured camera gets no stale results. */
+  public cancelFrames(): void {
+    inferenceClient.cancelFrames();
+  }
+
+  /**
+   * Classifies and, in parallel, looks for a barcode or resin code that can
+   * settle the material more reliably than the picture alone.
+   */
+  public async classifyWithCodes(element: ImageSource, options?: ClassifyOptions): Promise<ClassificationResult> {
+    const [result, scan] = await Promise.all([this.active.classifyElement(element, options), materialScanner.scan(element)]);
+    return this.finalize(materialScanner.refine(result, scan));
+  }
+
+  /** Multi-object detection is only offered by the on-device backend. */
+  public async detectElement(element: ImageSource, options?: ClassifyOptions): Promise<DetectionResult[]> {
+    const found = await mobilenetBackend.detectElement(element, options);
+    return found.map(detection => this.finalize(detection));
+  }
+
+  public addCustomSample(element: ImageSource, classId: string): Promise<void> {
+    return mobilenetBackend.addCustomSample(element, classId);
+  }
+
+  /**
+   * Classifies an uploaded photo: decoded upright and downscaled, cropped to
+   * the user's selection, and optionally as several views merged into one.
+   * Augmentation is skipped for cloud backends, where each view is a request.
+   * A saliency map, when asked for, covers the full view in the photo's pixels.
+   */
+  public async classify(file: File, options: PreprocessOptions = {}): Promise<ClassificationResult> {
+    const { canvas, toOriginal } = await prepareImage(file, options.crop);
+    const mode = this.active.privacy === 'on-device' ? options.augmentation ?? 'off' : 'off';
+    const views = getAugmentedViews(canvas, mode);
+    const inPhoto = (result: ClassificationResult): ClassificationResult => result.saliency
+      ? { ...result, saliency: { ...result.saliency, box: toOriginal({ x: 0, y: 0, width: canvas.width, height: canvas.height }) } }
+      : result;
+    if (views.length === 1) return inPhoto(await this.classifyWithCodes(canvas, { explain: options.explain }));
+
+    // Codes are read once, from the full image
+    const scanning = materialScanner.scan(canvas);
+    const results: ClassificationResult[] = [];
+    for (const view of views) {
+      results.push(await this.active.classifyElement(view, { explain: options.explain && view === canvas }));
     }
-    
-    return this.getUnknownResult(label, confidence);
-  }
-
-  private getUnknownResult(label: string = 'Unknown Object', confidence: number = 0): ClassificationResult {
-    return {
-      category: WasteCategory.UNKNOWN,
-      confidence,
-      label: label.split(',')[0],
-      reasoning: `The system detected '${label.split(',')[0]}' but could not match it to a specific waste stream with high confidence.`,
-      disposalInstructions: UNKNOWN_INSTRUCTIONS
-    };
+    const merged = { ...mergeViewResults(results), saliency: results[0].saliency };
+    return inPhoto(this.finalize(materialScanner.refine(merged, await scanning)));
+  }
+
+  /** Boxes are returned in the original photo's pixels, whatever the crop. */
+  public async detect(file: File, options: PreprocessOptions = {}): Promise<DetectionResult[]> {
+    const { canvas, toOriginal } = await prepareImage(file, options.crop);
+    const found = await this.detectElement(canvas);
+    return found.map(detection => ({ ...detection, box: toOriginal(detection.box) }));
+  }
+
+  /**
+   * Rebuilds a result for a category the user picked, keeping the original
+   * label so the card and history still show what the model saw.
+   */
+  public withCategory<T extends ClassificationResult>(result: T, category: WasteCategory): T {
+    const pack = rulePackManager.getActivePack();
+    const mapping = pack.categories.find(c => c.category === category);
+    if (!mapping) return result;
+
+    return withImpact({
+      ...result,
+      category,
+      reasoning: i18n.t('reasoning.corrected', { label: result.label, category: i18n.category(category) }),
+      ...taxonomy.describe(category, pack),
+      alternatives: result.alternatives.filter(alt => alt.category !== category),
+      binColor: mapping.binColor,
+      dropOffNotes: mapping.dropOffNotes,
+      // The user's choice now decides, so the code-derived verdict no longer applies
+      decidedBy: undefined,
+      material: undefined,
+      uncertain: undefined
+    }, IMPACT_TABLE);
+  }
+
+  /** Switches a result between its item's clean and contaminated instructions. */
+  public withContamination<T extends ClassificationResult>(result: T, contaminated: boolean): T {
+    const leaf = result.path?.length ? taxonomy.getNode(result.path[result.path.length - 1].id) : undefined;
+    if (!leaf?.contaminated) return result;
+    return { ...result, ...taxonomy.describe(leaf, rulePackManager.getActivePack(), contaminated) };
   }
 }
 
@@ -0,0 +1,38 @@
+// The bare minimum of the browser the services touch at import time, so they
+// can run under Node's test runner. Import this before the module under test.
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+/** Stands in for a canvas: drawing does nothing and it always encodes to the same data URL. */
+export class FakeCanvas {
+  width = 0;
+  height = 0;
+  getContext() {
+    return { drawImage: () => undefined };
+  }
+  toDataURL() {
+    return 'data:image/jpeg;base64,AAAA';
+  }
+}
+
+const define = (name: string, value: unknown) =>
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+
+define('window', globalThis);
+define('localStorage', new MemoryStorage());
+define('navigator', { language: 'en', languages: ['en'] });
+define('document', {
+  documentElement: { lang: 'en' },
+  createElement: (tag: string) => {
+    if (tag !== 'canvas') throw new Error(`No fake for <${tag}>`);
+    return new FakeCanvas();
+  }
+});
+define('HTMLVideoElement', class HTMLVideoElement {});
+define('HTMLImageElement', class HTMLImageElement {});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CustomHeadError, validateCustomHead } from '../services/customHeadSchema';
+import { CUSTOM_HEAD_FORMAT, CUSTOM_HEAD_VERSION } from '../constants';
+import { createTranslator } from '../services/translator';
+import { WasteCategory } from '../types';
+
+const exported = () => ({
+  format: CUSTOM_HEAD_FORMAT,
+  version: CUSTOM_HEAD_VERSION,
+  classes: [
+    { id: 'cup', name: 'Coffee cup', category: WasteCategory.PAPER, instructions: 'Lid goes in plastics.' },
+    { id: 'tetra', name: 'Tetra Pak', category: WasteCategory.PLASTIC }
+  ],
+  samples: {
+    cup: { shape: [2, 3], data: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6] },
+    tetra: { shape: [1, 3], data: [0.7, 0.8, 0.9] }
+  }
+});
+
+describe('validateCustomHead', () => {
+  it('accepts an export from this app', () => {
+    const head = validateCustomHead(exported());
+    assert.deepEqual(head.classes.map(c => c.id), ['cup', 'tetra']);
+    assert.deepEqual(head.samples.tetra, { shape: [1, 3], data: [0.7, 0.8, 0.9] });
+  });
+
+  it('keeps Unknown as a category choice, since the trainer offers it', () => {
+    const file = exported();
+    file.classes[1].category = WasteCategory.UNKNOWN;
+    assert.equal(validateCustomHead(file).classes[1].category, WasteCategory.UNKNOWN);
+  });
+
+  it('drops fields the app does not know about', () => {
+    const file = { ...exported(), extra: true };
+    (file.classes[0] as Record<string, unknown>).script = 'alert(1)';
+    const head = validateCustomHead(file);
+    assert.equal('extra' in head, false);
+    assert.equal('script' in head.classes[0], false);
+  });
+
+  const rejects = (name: string, change: (file: any) => void, message: RegExp) =>
+    it(`rejects ${name}`, () => {
+      const file = exported();
+      change(file);
+      assert.throws(() => validateCustomHead(file), (err: unknown) => err instanceof CustomHeadError && message.test(err.message));
+    });
+
+  rejects('another file format', file => { file.format = 'something-else'; }, /not an EcoClear/);
+  rejects('a newer version', file => { file.version = CUSTOM_HEAD_VERSION + 1; }, /version .* not supported/);
+  rejects('missing samples', file => { delete file.samples; }, /missing its classes or samples/);
+  rejects('samples given as a list', file => { file.samples = []; }, /missing its classes or samples/);
+  rejects('non-numeric sample values', file => { file.samples.tetra.data = ['a', null, 0.9]; }, /corrupted samples/);
+  rejects('non-finite sample values', file => { file.samples.tetra.data = [0.7, 1e400, 0.9]; }, /corrupted samples/);
+  rejects('a shape that does not match the data', file => { file.samples.cup.shape = [3, 3]; }, /corrupted samples/);
+  rejects('a fractional shape', file => { file.samples.tetra.shape = [0.5, 6]; file.samples.tetra.data = [1, 2, 3]; }, /corrupted samples/);
+  rejects('samples of different widths', file => { file.samples.tetra = { shape: [1, 2], data: [0.7, 0.8] }; }, /corrupted samples/);
+  rejects('samples for a class that is not defined', file => { file.samples.other = file.samples.tetra; }, /corrupted samples/);
+  rejects('non-text instructions', file => { file.classes[0].instructions = { html: '<b>' }; }, /invalid class definition/);
+  rejects('a blank name', file => { file.classes[0].name = '  '; }, /invalid class definition/);
+  rejects('an unknown category', file => { file.classes[0].category = 'Compost'; }, /invalid class definition/);
+  rejects('duplicate class ids', file => { file.classes[1].id = 'cup'; }, /invalid class definition/);
+
+  it('reports problems in the UI language', () => {
+    assert.throws(() => validateCustomHead({ ...exported(), version: 99 }, createTranslator('de')), /Version 99 des eigenen Klassifikators/);
+  });
+});
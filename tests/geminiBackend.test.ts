@@ -0,0 +1,81 @@
+import './browserGlobals';
+import { ChildProcess, spawn } from 'node:child_process';
+import { once } from 'node:events';
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { ImageSource, WasteCategory } from '../types';
+import { FakeCanvas } from './browserGlobals';
+
+const { GeminiBackend, parseVerdict } = await import('../services/backends/geminiBackend');
+
+const servers: ChildProcess[] = [];
+
+/** Starts scripts/mock-gemini-server.mjs on a free port and resolves to its base URL. */
+const startMockServer = async (env: Record<string, string> = {}): Promise<string> => {
+  const server = spawn(process.execPath, ['scripts/mock-gemini-server.mjs'], {
+    env: { ...process.env, PORT: '0', ...env },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  servers.push(server);
+  return new Promise((resolve, reject) => {
+    let output = '';
+    server.stdout!.on('data', chunk => {
+      output += chunk;
+      const match = output.match(/listening on (http:\/\/\S+)/);
+      if (match) resolve(match[1]);
+    });
+    server.on('exit', () => reject(new Error(`Mock server exited before listening: ${output}`)));
+  });
+};
+
+const image = Object.assign(new FakeCanvas(), { width: 640, height: 480 }) as unknown as ImageSource;
+
+const classifyWith = async (env: Record<string, string> = {}) =>
+  new GeminiBackend({ apiKey: 'test', baseUrl: await startMockServer(env) }).classifyElement(image);
+
+after(async () => {
+  await Promise.all(servers.map(async server => {
+    if (server.exitCode !== null) return;
+    server.kill();
+    await once(server, 'exit');
+  }));
+});
+
+describe('GeminiBackend against the mock server', () => {
+  it('maps the canned verdict to a result', async () => {
+    const result = await classifyWith();
+    assert.equal(result.category, WasteCategory.GLASS);
+    assert.equal(result.label, 'wine bottle');
+    assert.equal(result.confidence, 0.93);
+    assert.deepEqual(result.alternatives, [{ category: WasteCategory.PLASTIC, score: 0.05 }]);
+  });
+
+  it('falls back to Unknown for a category outside the rule pack', async () => {
+    const result = await classifyWith({ MOCK_GEMINI_RESPONSE: JSON.stringify({ category: 'Compost heap', label: 'peel', confidence: 2 }) });
+    assert.equal(result.category, WasteCategory.UNKNOWN);
+    assert.equal(result.confidence, 1);
+    assert.deepEqual(result.alternatives, []);
+  });
+
+  for (const [name, response] of [
+    ['null', 'null'],
+    ['a non-array alternatives field', JSON.stringify({ category: 'Glass', alternatives: 'Plastic' })],
+    ['text that is not JSON', 'Sorry, I cannot help with that.']
+  ]) {
+    it(`reports a friendly error for ${name}`, async () => {
+      await assert.rejects(classifyWith({ MOCK_GEMINI_RESPONSE: response }), /Cloud analysis failed/);
+    });
+  }
+
+  it('reports a friendly error when the API fails', async () => {
+    await assert.rejects(classifyWith({ MOCK_GEMINI_STATUS: '500' }), /Cloud analysis failed/);
+  });
+});
+
+describe('parseVerdict', () => {
+  it('drops malformed alternatives and clamps scores', () => {
+    const verdict = parseVerdict(JSON.stringify({ category: 'Metal', alternatives: [null, 'Glass', { category: 'Glass', score: -1 }] }));
+    assert.deepEqual(verdict.alternatives, [{ category: 'Glass', score: 0 }]);
+    assert.equal(verdict.label, '');
+  });
+});
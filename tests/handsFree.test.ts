@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseVoiceCommand } from '../services/handsFree';
+import { createTranslator } from '../services/translator';
+import { WasteCategory } from '../types';
+
+const en = createTranslator('en');
+const es = createTranslator('es');
+
+describe('parseVoiceCommand', () => {
+  it('switches modes', () => {
+    assert.deepEqual(parseVoiceCommand('Start scanning', en), { type: 'mode', mode: 'live' });
+    assert.deepEqual(parseVoiceCommand('upload mode', en), { type: 'mode', mode: 'upload' });
+    assert.deepEqual(parseVoiceCommand('Show history.', en), { type: 'mode', mode: 'history' });
+  });
+
+  it('repeats and goes quiet', () => {
+    assert.deepEqual(parseVoiceCommand('Say that again?', en), { type: 'repeat' });
+    assert.deepEqual(parseVoiceCommand('be quiet', en), { type: 'silence' });
+  });
+
+  it('reads a correction with punctuation and capitals', () => {
+    assert.deepEqual(parseVoiceCommand("Wrong, it's GLASS.", en), { type: 'correct', category: WasteCategory.GLASS });
+  });
+
+  it('needs a category to correct to', () => {
+    assert.equal(parseVoiceCommand('wrong', en), null);
+    assert.equal(parseVoiceCommand("that's not unknown", en), null);
+  });
+
+  it('uses the phrases of the UI language', () => {
+    assert.deepEqual(parseVoiceCommand('Incorrecto, es vidrio', es), { type: 'correct', category: WasteCategory.GLASS });
+    assert.deepEqual(parseVoiceCommand('otra vez', es), { type: 'repeat' });
+    assert.equal(parseVoiceCommand('say again', es), null);
+  });
+
+  it('also accepts the English category name', () => {
+    assert.deepEqual(parseVoiceCommand('no es metal', es), { type: 'correct', category: WasteCategory.METAL });
+    assert.deepEqual(parseVoiceCommand('eso no es e-waste', es), { type: 'correct', category: WasteCategory.E_WASTE });
+  });
+
+  it('ignores phrases inside longer words and unrelated speech', () => {
+    assert.equal(parseVoiceCommand('stopwatch', en), null);
+    assert.equal(parseVoiceCommand('hello there', en), null);
+    assert.equal(parseVoiceCommand('  ', en), null);
+  });
+});
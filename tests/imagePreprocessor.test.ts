@@ -0,0 +1,115 @@
+import './browserGlobals';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const { readImageHeader, uprightSize } = await import('../services/imagePreprocessor');
+
+const bytes = (...parts: (number[] | Uint8Array | string)[]) => {
+  const chunks = parts.map(part => typeof part === 'string' ? new TextEncoder().encode(part) : Uint8Array.from(part));
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  chunks.reduce((offset, chunk) => (out.set(chunk, offset), offset + chunk.length), 0);
+  return out;
+};
+
+const u16 = (value: number, little = false) => little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+/** A JPEG with an EXIF orientation tag ahead of its start-of-frame marker. */
+const jpeg = (width: number, height: number, orientation: number, little = false) => {
+  const tiff = bytes(
+    little ? 'II' : 'MM', u16(42, little), little ? [8, 0, 0, 0] : [0, 0, 0, 8],
+    u16(1, little),
+    u16(0x0112, little), u16(3, little), little ? [1, 0, 0, 0] : [0, 0, 0, 1], u16(orientation, little), [0, 0],
+    [0, 0, 0, 0]
+  );
+  const exif = bytes('Exif', [0, 0], tiff);
+  return bytes(
+    [0xff, 0xd8],
+    [0xff, 0xe1], u16(exif.length + 2), exif,
+    [0xff, 0xc0], u16(17), [8], u16(height), u16(width), [3], new Array(9).fill(0),
+    [0xff, 0xd9]
+  );
+};
+
+const png = (width: number, height: number) =>
+  bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], u32(13), 'IHDR', u32(width), u32(height), [8, 2, 0, 0, 0]);
+
+const box = (type: string, ...content: (number[] | Uint8Array | string)[]) => {
+  const body = bytes(...content);
+  return bytes(u32(body.length + 8), type, body);
+};
+const ispe = (width: number, height: number) => box('ispe', [0, 0, 0, 0], u32(width), u32(height));
+
+/** An iPhone-style HEIC: 512px grid tiles, the full-size grid item, a thumbnail, then the media data. */
+const heic = (width: number, height: number, rotation?: number) => bytes(
+  box('ftyp', 'heic', u32(0), 'mif1', 'heic'),
+  box('meta', [0, 0, 0, 0],
+    box('hdlr', [0, 0, 0, 0], u32(0), 'pict', new Array(13).fill(0)),
+    box('iprp',
+      box('ipco',
+        ispe(512, 512),
+        ispe(width, height),
+        box('hvcC', new Array(23).fill(0)),
+        ispe(320, 240),
+        ...(rotation === undefined ? [] : [box('irot', [rotation])])
+      ),
+      box('ipma', new Array(12).fill(0))
+    )
+  ),
+  // A 64-bit size box, as large media data is stored
+  u32(1), 'mdat', u32(0), u32(64), new Array(48).fill(0)
+);
+
+const header = (data: Uint8Array) => readImageHeader(new Blob([data]));
+
+describe('readImageHeader', () => {
+  it('reads a JPEG without EXIF as upright', async () => {
+    const data = jpeg(4000, 3000, 1);
+    assert.deepEqual(await header(data), { width: 4000, height: 3000, orientation: 1 });
+  });
+
+  for (const orientation of [1, 2, 3, 4, 5, 6, 7, 8]) {
+    for (const little of [false, true]) {
+      it(`reads EXIF orientation ${orientation} (${little ? 'Intel' : 'Motorola'} byte order)`, async () => {
+        assert.deepEqual(await header(jpeg(4000, 3000, orientation, little)), { width: 4000, height: 3000, orientation });
+      });
+    }
+  }
+
+  it('ignores an out-of-range orientation', async () => {
+    assert.equal((await header(jpeg(640, 480, 9)))?.orientation, 1);
+  });
+
+  it('reads a PNG size', async () => {
+    assert.deepEqual(await header(png(1920, 1080)), { width: 1920, height: 1080, orientation: 1 });
+  });
+
+  it('reads the largest HEIC item size rather than a tile or thumbnail', async () => {
+    assert.deepEqual(await header(heic(4032, 3024)), { width: 4032, height: 3024, orientation: 1 });
+  });
+
+  for (const [rotation, orientation] of [[0, 1], [1, 8], [2, 3], [3, 6]]) {
+    it(`maps HEIC irot ${rotation} to orientation ${orientation}`, async () => {
+      assert.deepEqual(await header(heic(4032, 3024, rotation)), { width: 4032, height: 3024, orientation });
+    });
+  }
+
+  it('returns null for formats it cannot size', async () => {
+    assert.equal(await header(bytes('RIFF', u32(100), 'WEBPVP8 ', new Array(20).fill(0))), null);
+    assert.equal(await header(bytes(box('ftyp', 'heic', u32(0)), box('meta', [0, 0, 0, 0]), new Array(16).fill(0))), null);
+    assert.equal(await header(bytes([0xff, 0xd8])), null);
+  });
+});
+
+describe('uprightSize', () => {
+  for (const orientation of [1, 2, 3, 4]) {
+    it(`keeps the axes for orientation ${orientation}`, () => {
+      assert.deepEqual(uprightSize({ width: 4000, height: 3000, orientation }), { width: 4000, height: 3000 });
+    });
+  }
+  for (const orientation of [5, 6, 7, 8]) {
+    it(`swaps the axes for orientation ${orientation}`, () => {
+      assert.deepEqual(uprightSize({ width: 4000, height: 3000, orientation }), { width: 3000, height: 4000 });
+    });
+  }
+});
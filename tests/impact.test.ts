@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { estimateImpact, impactToCsv, newMilestones, summarizeImpact, withImpact } from '../services/impact';
+import { ClassificationResult, ImpactEntry, ImpactTable, Milestone, WasteCategory } from '../types';
+
+const table: ImpactTable = {
+  factors: {
+    [WasteCategory.METAL]: { typicalMassKg: 0.02, co2eKgPerKg: 9, energyKWhPerKg: 40 },
+    [WasteCategory.PAPER]: { typicalMassKg: 0.1, co2eKgPerKg: 1, energyKWhPerKg: 4 }
+  }
+};
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+// Noon local time, so adding days never crosses midnight through a DST change
+const day = (offset: number) => new Date(2026, 9, 18 + offset, 12).getTime();
+
+const entry = (category: WasteCategory, timestamp: number, label = 'item'): ImpactEntry =>
+  ({ id: `${category}-${timestamp}`, timestamp, category, label, impact: estimateImpact(category, table)! });
+
+describe('estimateImpact', () => {
+  it('multiplies the typical mass by the per-kilogram factors', () => {
+    const impact = estimateImpact(WasteCategory.METAL, table)!;
+    close(impact.co2eKg, 0.18);
+    close(impact.energyKWh, 0.8);
+    close(impact.landfillKg, 0.02);
+  });
+
+  it('has no estimate for a category without a factor', () => {
+    assert.equal(estimateImpact(WasteCategory.GLASS, table), undefined);
+  });
+});
+
+describe('withImpact', () => {
+  const result: ClassificationResult = {
+    category: WasteCategory.PAPER, confidence: 0.9, label: 'carton', reasoning: '', disposalInstructions: '', alternatives: []
+  };
+
+  it('credits a confident result and not an uncertain one', () => {
+    close(withImpact(result, table).impact!.co2eKg, 0.1);
+    assert.equal(withImpact({ ...result, uncertain: [] }, table).impact, undefined);
+  });
+});
+
+describe('summarizeImpact', () => {
+  const milestones: Milestone[] = [{ kind: 'items', threshold: 3 }, { kind: 'co2e', threshold: 0.5 }];
+
+  it('adds up totals overall and per category', () => {
+    const summary = summarizeImpact([entry(WasteCategory.METAL, day(0)), entry(WasteCategory.METAL, day(0)), entry(WasteCategory.PAPER, day(0))], milestones, day(0));
+    assert.equal(summary.items, 3);
+    close(summary.totals.co2eKg, 0.46);
+    close(summary.totals.landfillKg, 0.14);
+    assert.equal(summary.byCategory[WasteCategory.METAL]?.items, 2);
+    close(summary.byCategory[WasteCategory.METAL]!.totals.energyKWh, 1.6);
+    assert.deepEqual(summary.milestones, [{ kind: 'items', threshold: 3 }]);
+  });
+
+  it('keeps the current streak alive until today is over', () => {
+    const entries = [day(-2), day(-1)].map(time => entry(WasteCategory.PAPER, time));
+    assert.equal(summarizeImpact(entries, [], day(0)).currentStreak, 2);
+    assert.equal(summarizeImpact(entries, [], day(1)).currentStreak, 0);
+  });
+
+  it('counts each day once and finds the longest run', () => {
+    const entries = [day(-9), day(-8), day(-8), day(-7), day(-3), day(0)].map(time => entry(WasteCategory.PAPER, time));
+    const summary = summarizeImpact(entries, [], day(0));
+    assert.equal(summary.longestStreak, 3);
+    assert.equal(summary.currentStreak, 1);
+  });
+
+  it('reports only milestones reached since the last summary', () => {
+    const before = summarizeImpact([entry(WasteCategory.METAL, day(0))], milestones, day(0));
+    const after = summarizeImpact([1, 2, 3].map(() => entry(WasteCategory.METAL, day(0))), milestones, day(0));
+    assert.deepEqual(newMilestones(before, after), milestones);
+    assert.deepEqual(newMilestones(after, after), []);
+  });
+});
+
+describe('impactToCsv', () => {
+  it('writes rows oldest first and quotes labels that need it', () => {
+    const csv = impactToCsv([entry(WasteCategory.PAPER, day(1), 'box, "large"'), entry(WasteCategory.METAL, day(0), 'can')]);
+    const [header, first, second] = csv.trimEnd().split('\n');
+    assert.equal(header, 'timestamp,category,label,co2e_kg,energy_kwh,landfill_kg');
+    assert.equal(first, `${new Date(day(0)).toISOString()},Metal,can,0.1800,0.8000,0.0200`);
+    assert.equal(second, `${new Date(day(1)).toISOString()},Paper,"box, ""large""",0.1000,0.4000,0.1000`);
+  });
+});
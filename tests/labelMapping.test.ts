@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mapLabelToWaste, withAbstention } from '../services/labelMapping';
+import { validateRulePack } from '../services/rulePackSchema';
+import { ClassificationResult, WasteCategory } from '../types';
+import globalPack from '../rulepacks/global.json';
+
+const pack = validateRulePack(globalPack);
+
+describe('mapLabelToWaste', () => {
+  it('prefers the longest matching keyword', () => {
+    assert.equal(mapLabelToWaste('wine bottle', { pack })?.mapping.category, WasteCategory.GLASS);
+    assert.equal(mapLabelToWaste('water bottle', { pack })?.mapping.category, WasteCategory.PLASTIC);
+  });
+
+  it('matches keywords on word boundaries only', () => {
+    assert.equal(mapLabelToWaste('toucan', { pack }), null);
+    assert.equal(mapLabelToWaste('tin can, can', { pack })?.mapping.category, WasteCategory.METAL);
+  });
+
+  it('lets a user correction override the pack', () => {
+    const match = mapLabelToWaste('banana', { pack, getLearnedCategory: () => WasteCategory.METAL });
+    assert.equal(match?.mapping.category, WasteCategory.METAL);
+    assert.equal(match?.learned, true);
+  });
+
+  it('ignores a correction to a category the pack does not have', () => {
+    const noGlass = { ...pack, categories: pack.categories.filter(c => c.category !== WasteCategory.GLASS) };
+    const match = mapLabelToWaste('banana', { pack: noGlass, getLearnedCategory: () => WasteCategory.GLASS });
+    assert.equal(match?.mapping.category, WasteCategory.ORGANIC);
+    assert.equal(match?.learned, undefined);
+  });
+});
+
+describe('withAbstention', () => {
+  const result = (overrides: Partial<ClassificationResult> = {}): ClassificationResult => ({
+    category: WasteCategory.PLASTIC,
+    confidence: 0.2,
+    label: 'bottle',
+    reasoning: '',
+    disposalInstructions: 'Rinse it.',
+    alternatives: [
+      { category: WasteCategory.UNKNOWN, score: 0.15 },
+      { category: WasteCategory.GLASS, score: 0.1 }
+    ],
+    ...overrides
+  });
+
+  it('lists the two leading bins when confidence is below the threshold', () => {
+    const uncertain = withAbstention(result(), 0.3, pack).uncertain;
+    assert.deepEqual(uncertain?.map(c => [c.category, c.score]), [[WasteCategory.PLASTIC, 0.2], [WasteCategory.GLASS, 0.1]]);
+    assert.equal(uncertain?.[1].binColor, pack.categories.find(c => c.category === WasteCategory.GLASS)?.binColor);
+  });
+
+  it('leaves a confident result alone', () => {
+    assert.equal('uncertain' in withAbstention(result({ confidence: 0.3 }), 0.3, pack), false);
+  });
+
+  it('leaves results decided by a printed code alone', () => {
+    assert.equal(withAbstention(result({ decidedBy: 'resin-code' }), 0.95, pack).uncertain, undefined);
+    assert.equal(withAbstention(result({ decidedBy: 'barcode' }), 0.95, pack).uncertain, undefined);
+  });
+
+  it('clears an earlier verdict when re-applied to a more confident result', () => {
+    const first = withAbstention(result(), 0.3, pack);
+    assert.equal(withAbstention({ ...first, confidence: 0.8 }, 0.3, pack).uncertain, undefined);
+  });
+});
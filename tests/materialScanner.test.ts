@@ -0,0 +1,42 @@
+import './browserGlobals';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const { parseResinCode } = await import('../services/materialScanner');
+
+describe('parseResinCode', () => {
+  it('reads a marking printed next to its number', () => {
+    assert.equal(parseResinCode('PET 1'), 1);
+    assert.equal(parseResinCode('1 PETE'), 1);
+    assert.equal(parseResinCode('#5 PP'), 5);
+    assert.equal(parseResinCode('05 PP'), 5);
+    assert.equal(parseResinCode('PE-HD (2)'), 2);
+    assert.equal(parseResinCode('Other 7'), 7);
+  });
+
+  it('reads a number inside the triangle above its marking', () => {
+    assert.equal(parseResinCode('Recyclable\n6\nPS\nMade in EU'), 6);
+  });
+
+  it('falls back to a number written as #5', () => {
+    assert.equal(parseResinCode('Recycle #2'), 2);
+  });
+
+  it('ignores marking words in ordinary label text', () => {
+    assert.equal(parseResinCode('Premium PET FOOD for dogs'), null);
+    assert.equal(parseResinCode('See OTHER side for details'), null);
+    assert.equal(parseResinCode('PS: keep refrigerated'), null);
+    assert.equal(parseResinCode('PP'), null);
+  });
+
+  it('ignores a marking beside the wrong number or inside a longer number', () => {
+    assert.equal(parseResinCode('PET 5'), null);
+    assert.equal(parseResinCode('PET 12 oz'), null);
+    assert.equal(parseResinCode('PS 2024'), null);
+  });
+
+  it('ignores single-letter markings and bare digits', () => {
+    assert.equal(parseResinCode('3 V'), null);
+    assert.equal(parseResinCode('Serves 4'), null);
+  });
+});
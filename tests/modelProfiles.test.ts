@@ -0,0 +1,51 @@
+import './browserGlobals';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BENCHMARK_SHAPE, STORAGE_KEYS } from '../constants';
+import { ModelProfile } from '../types';
+
+const { chooseProfile, estimateLatencyMs, modelProfiles } = await import('../services/modelProfiles');
+
+const { size, channels } = BENCHMARK_SHAPE;
+const benchmarkMmacs = (size * size * channels * 9 * channels) / 1e6;
+
+const profile = (id: string, mmacs: number, modelUrl?: string): ModelProfile =>
+  ({ id, name: id, version: 2, alpha: 1.0, mmacs, sizeMb: 1, storeKey: `indexeddb://${id}`, modelUrl });
+
+const small = profile('small', 60);
+const medium = profile('medium', 150);
+const large = profile('large', 300);
+
+describe('estimateLatencyMs', () => {
+  it('scales the benchmark time by the profile\'s share of its work', () => {
+    assert.equal(estimateLatencyMs(profile('same', benchmarkMmacs), 8), 8);
+    assert.ok(Math.abs(estimateLatencyMs(profile('double', benchmarkMmacs * 2), 8) - 16) < 1e-9);
+  });
+});
+
+describe('chooseProfile', () => {
+  const msFor = (mmacs: number, budget: number) => (budget * benchmarkMmacs) / mmacs;
+
+  it('picks the largest profile within the budget', () => {
+    assert.equal(chooseProfile([large, small, medium], msFor(150, 100), 100).id, 'medium');
+    assert.equal(chooseProfile([large, small, medium], msFor(300, 100), 100).id, 'large');
+  });
+
+  it('falls back to the smallest profile on a slow device', () => {
+    assert.equal(chooseProfile([medium, large, small], msFor(10, 100), 100).id, 'small');
+  });
+
+  it('never picks a self-hosted profile', () => {
+    const hosted = profile('hosted', 30, 'https://example.com/model.json');
+    assert.equal(chooseProfile([hosted, small, large], msFor(1000, 100), 100).id, 'large');
+    assert.equal(chooseProfile([hosted, small], msFor(1, 100), 100).id, 'small');
+  });
+});
+
+describe('modelProfiles', () => {
+  it('keeps the benchmark for the next visit', () => {
+    modelProfiles.setBenchmarkMs(12.5);
+    assert.equal(localStorage.getItem(STORAGE_KEYS.modelBenchmark), '12.5');
+    assert.equal(modelProfiles.hasBenchmark(), true);
+  });
+});
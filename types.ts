@@ -1,4 +1,3 @@
-
 export enum WasteCategory {
   ORGANIC = 'Organic',
   PLASTIC = 'Plastic',
@@ -9,12 +8,224 @@ export enum WasteCategory {
   UNKNOWN = 'Unknown'
 }
 
+export interface CategoryScore {
+  category: WasteCategory;
+  score: number;
+}
+
 export interface ClassificationResult {
   category: WasteCategory;
   confidence: number;
   label: string;
   reasoning: string;
   disposalInstructions: string;
+  alternatives: CategoryScore[];
+  binColor?: string;
+  dropOffNotes?: string;
+  // Taxonomy nodes from the category down to the most specific match
+  path?: TaxonomyRef[];
+  hazards?: HazardFlag[];
+  // True when the contaminated variant of the item applies, e.g. a greasy pizza box
+  contaminated?: boolean;
+  // What was read from the item and which signal settled the category
+  evidence?: Evidence[];
+  decidedBy?: EvidenceSource;
+  material?: MaterialInfo;
+  // Set when no bin cleared the abstain threshold: the leading bins to choose between
+  uncertain?: UncertainCandidate[];
+  // Where the on-device model looked; only computed when asked for
+  saliency?: SaliencyMap;
+  // What sorting the item correctly saves; absent for uncertain and unknown results
+  impact?: ImpactEstimate;
+}
+
+/**
+ * Attribution of the model's top prediction to regions of the image, as a
+ * coarse row-major grid scaled to 0..1 (1 = most influential).
+ */
+export interface SaliencyMap {
+  columns: number;
+  rows: number;
+  values: number[];
+  // The ImageNet class the map explains
+  label: string;
+  // Part of the source image the grid covers, in its pixels; the whole image when absent
+  box?: BoundingBox;
+}
+
+export interface UncertainCandidate {
+  category: WasteCategory;
+  score: number;
+  disposalInstructions: string;
+  binColor?: string;
+}
+
+export interface Calibration {
+  // Temperature per category; 1 leaves a score as it is, above 1 softens it, below 1 sharpens it.
+  // Unknown applies to the probability mass no keyword claimed.
+  temperatures: Partial<Record<WasteCategory, number>>;
+  fittedOn?: { samples: number; date: string };
+}
+
+/** Typical savings from sorting one item of a category instead of putting it in general waste. */
+export interface ImpactFactor {
+  // Weight of a typical item; all of it is kept out of landfill
+  typicalMassKg: number;
+  // Saved per kilogram recycled or composted
+  co2eKgPerKg: number;
+  energyKWhPerKg: number;
+}
+
+export interface ImpactTable {
+  // Where the figures come from, carried into exported reports
+  source?: string;
+  factors: Partial<Record<WasteCategory, ImpactFactor>>;
+}
+
+export interface ImpactEstimate {
+  co2eKg: number;
+  energyKWh: number;
+  landfillKg: number;
+}
+
+// One item the user confirmed they sorted
+export interface ImpactEntry {
+  id: string;
+  timestamp: number;
+  category: WasteCategory;
+  label: string;
+  impact: ImpactEstimate;
+}
+
+export interface Milestone {
+  kind: 'items' | 'co2e';
+  threshold: number;
+}
+
+export interface ImpactSummary {
+  items: number;
+  totals: ImpactEstimate;
+  byCategory: Partial<Record<WasteCategory, { items: number; totals: ImpactEstimate }>>;
+  // Consecutive days with at least one sorted item, ending today or yesterday
+  currentStreak: number;
+  longestStreak: number;
+  milestones: Milestone[];
+}
+
+export type HazardFlag = 'sharp' | 'toxic' | 'flammable' | 'lithium';
+
+export interface TaxonomyRef {
+  // Slash-separated path such as "paper/cardboard/pizza-box"
+  id: string;
+  name: string;
+}
+
+export interface TaxonomyVariant {
+  name: string;
+  // Labels that imply the variant directly, e.g. "pizza" for a greasy pizza box
+  keywords?: string[];
+  instructions: string;
+}
+
+export interface TaxonomyItem {
+  id: string;
+  name: string;
+  keywords: string[];
+  instructions?: string;
+  hazards?: HazardFlag[];
+  contaminated?: TaxonomyVariant;
+}
+
+export interface TaxonomySubcategory {
+  id: string;
+  name: string;
+  instructions?: string;
+  hazards?: HazardFlag[];
+  // Tailwind palette name overriding the category colour
+  color?: string;
+  items: TaxonomyItem[];
+}
+
+export interface TaxonomyCategory {
+  category: WasteCategory;
+  color: string;
+  subcategories: TaxonomySubcategory[];
+}
+
+export interface WasteTaxonomy {
+  schemaVersion: number;
+  categories: TaxonomyCategory[];
+}
+
+/** Localized text for one taxonomy node; keywords are added to the English ones. */
+export interface TaxonomyTranslation {
+  name?: string;
+  instructions?: string;
+  keywords?: string[];
+  contaminated?: { name?: string; instructions?: string; keywords?: string[] };
+}
+
+/** UI strings and matching vocabulary for one language, bundled under i18n/. */
+export interface LocaleBundle {
+  // Language name in the language itself, for the picker
+  name: string;
+  strings: Record<string, string>;
+  // Extra keywords per category, e.g. "botella" for Plastic
+  keywords: Partial<Record<WasteCategory, string[]>>;
+  // Keyed by taxonomy node id
+  taxonomy: Record<string, TaxonomyTranslation>;
+}
+
+export type EvidenceSource = 'vision' | 'barcode' | 'resin-code';
+
+export interface Evidence {
+  source: EvidenceSource;
+  // Model label, barcode digits or "#5"
+  value: string;
+  detail: string;
+}
+
+export interface MaterialInfo {
+  resinCode: number;
+  abbreviation: string;
+  name: string;
+  // Whether the active rule pack takes this resin in plastic recycling
+  accepted: boolean;
+}
+
+export interface ResinCodeEntry {
+  code: number;
+  abbreviation: string;
+  name: string;
+  // Other markings printed under the triangle, e.g. PETE or PE-HD
+  aliases: string[];
+}
+
+export interface ProductEntry {
+  // GTIN-13; UPC-A codes are looked up with a leading zero
+  gtin: string;
+  name: string;
+  category: WasteCategory;
+  resinCode?: number;
+}
+
+export interface MaterialScan {
+  barcodes: string[];
+  resinCode: number | null;
+}
+
+export interface BoundingBox {
+  // Pixel coordinates in the source image/video frame
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectionResult extends ClassificationResult {
+  box: BoundingBox;
+  detectedClass: string;
+  detectionScore: number;
 }
 
 export interface WasteMapping {
@@ -22,3 +233,217 @@ export interface WasteMapping {
   category: WasteCategory;
   instructions: string;
 }
+
+export interface Prediction {
+  className: string;
+  probability: number;
+}
+
+export interface RulePackCategory extends WasteMapping {
+  binColor: string;
+  dropOffNotes?: string;
+}
+
+export interface RulePack {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  region: string;
+  version: string;
+  unknownInstructions: string;
+  categories: RulePackCategory[];
+  // Resin identification codes (1-7) accepted in the plastic stream
+  acceptedResinCodes?: number[];
+  // Regional instructions for taxonomy nodes, keyed by node id
+  taxonomyInstructions?: Record<string, string>;
+  // Translated text keyed by locale; anything missing falls back to the English fields
+  translations?: Record<string, RulePackTranslation>;
+}
+
+export interface RulePackCategoryTranslation {
+  instructions?: string;
+  dropOffNotes?: string;
+  // Added to the category's keywords while the locale is active
+  keywords?: string[];
+}
+
+export interface RulePackTranslation {
+  unknownInstructions?: string;
+  categories?: Partial<Record<WasteCategory, RulePackCategoryTranslation>>;
+  taxonomyInstructions?: Record<string, string>;
+}
+
+export type ScanSource = 'upload' | 'live';
+
+export interface ScanRecord {
+  id: string;
+  timestamp: number;
+  // Small JPEG data URL; the original photo is never stored
+  thumbnail: string;
+  result: ClassificationResult;
+  source: ScanSource;
+}
+
+export interface HistoryFilter {
+  category?: WasteCategory;
+  from?: number;
+  to?: number;
+}
+
+export interface CustomClass {
+  id: string;
+  name: string;
+  category: WasteCategory;
+  // Overrides the rule pack's instructions, e.g. "greasy pizza box: general waste"
+  instructions?: string;
+}
+
+export interface CustomClassSummary extends CustomClass {
+  sampleCount: number;
+}
+
+export type BatchItemStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  filename: string;
+  status: BatchItemStatus;
+  result?: ClassificationResult;
+  error?: string;
+}
+
+// A crop as fractions of the upright image, so it survives downscaling
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Extra views of an upload that are classified and merged: none, a centre crop, or centre plus corners
+export type AugmentationMode = 'off' | 'center' | 'multi';
+
+export interface PreprocessOptions extends ClassifyOptions {
+  crop?: CropBox;
+  augmentation?: AugmentationMode;
+}
+
+export interface ClassifyOptions {
+  // Also compute a saliency map; backends that can't explain themselves ignore it
+  explain?: boolean;
+  // A Live Scan frame: a newer frame replaces it while queued, and stopping the camera drops it
+  frame?: boolean;
+}
+
+export interface LiveScanSettings {
+  // Delay between frames sent to the model
+  intervalMs: number;
+  // Number of recent frames that vote on the category
+  windowSize: number;
+  // Consecutive frames the leading category must hold before it is shown
+  stableFrames: number;
+  // Frames below this confidence count as "nothing recognised"
+  minConfidence: number;
+  // Derive the delay from the measured inference latency instead of `intervalMs`
+  adaptiveInterval: boolean;
+}
+
+export interface LiveScanState {
+  result: ClassificationResult | null;
+  locked: boolean;
+  // Progress of the current leader towards a lock, 0..1
+  stability: number;
+  // True when the reported category differs from the previous frame's
+  changed: boolean;
+}
+
+export type ImageSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+export type PrivacyLevel = 'on-device' | 'cloud';
+
+export interface BackendCapabilities {
+  // Multi-object detection with per-item boxes
+  detection: boolean;
+  // User-trained custom classes (see customClassifier)
+  customClasses: boolean;
+  // Fast and cheap enough for continuous Live Scan
+  liveScan: boolean;
+  // Works without a network connection once loaded
+  offline: boolean;
+}
+
+/**
+ * One MobileNet variant the on-device backend can run. Smaller `alpha` and
+ * v1 trade accuracy for speed; a `modelUrl` points at a self-hosted graph.
+ */
+export interface ModelProfile {
+  id: string;
+  name: string;
+  version: 1 | 2;
+  alpha: 0.25 | 0.5 | 0.75 | 1.0;
+  // Multiply-accumulates per image, in millions; used to estimate latency from the startup benchmark
+  mmacs: number;
+  // Approximate download size in MB
+  sizeMb: number;
+  // tf.io IndexedDB key for the offline copy
+  storeKey: string;
+  // Self-hosted model with MobileNet's outputs; never picked automatically, as it may not be deployed.
+  // With a modelUrl, version and alpha don't choose the download
+  modelUrl?: string;
+}
+
+export interface LatencyStats {
+  count: number;
+  lastMs: number;
+  meanMs: number;
+  p95Ms: number;
+}
+
+export interface ClassifierBackend {
+  id: string;
+  displayName: string;
+  privacy: PrivacyLevel;
+  capabilities: BackendCapabilities;
+  // False when the backend can't run in this build, e.g. no API key configured
+  isAvailable(): boolean;
+  load(): Promise<void>;
+  classifyElement(element: ImageSource, options?: ClassifyOptions): Promise<ClassificationResult>;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+/** A drop-off point, read from a GeoJSON Point feature. */
+export interface Facility {
+  id: string;
+  name: string;
+  address: string;
+  location: GeoPoint;
+  // Categories the facility takes in
+  accepts: WasteCategory[];
+  postcode?: string;
+  // Free text as supplied by the dataset, e.g. "Mon–Sat 7:00–19:00"
+  hours?: string;
+  website?: string;
+}
+
+export interface FacilityDataset {
+  name: string;
+  facilities: Facility[];
+  // Postcode centroids, so a typed postcode can be ranked by distance without a network lookup
+  postcodes: Record<string, GeoPoint>;
+}
+
+// Where distances are measured from: the device's position or a postcode the user typed
+export type FacilityOrigin =
+  | { kind: 'device'; point: GeoPoint }
+  | { kind: 'postcode'; postcode: string; point?: GeoPoint };
+
+export interface NearbyFacility {
+  facility: Facility;
+  // Unknown when a postcode has no centroid; such results are ranked by postcode similarity
+  distanceKm?: number;
+}
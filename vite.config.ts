@@ -1,6 +1,16 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', '')
+  return {
+    plugins: [react()],
+    // The inference worker is a module worker, so it can share code-split chunks
+    worker: { format: 'es' },
+    define: {
+      // Only read by the opt-in cloud backend; empty values keep it disabled
+      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+      'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL ?? ''),
+    },
+  }
 })